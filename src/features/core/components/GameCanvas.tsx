@@ -1,84 +1,186 @@
 import { Canvas } from "@react-three/fiber";
-import { Suspense } from "react";
+import { Suspense, useEffect, useState } from "react";
 import { Physics } from "@react-three/rapier";
-import { Sky, Environment, KeyboardControls, Stats, OrbitControls } from "@react-three/drei";
+import { Sky, Environment, Stats, OrbitControls } from "@react-three/drei";
 import { PlayerController } from "../../player/components/PlayerController";
 import { TestLevel } from "../../levels/components/TestLevel";
 import { EnhancedHUD } from "../../ui/components/EnhancedHUD";
 import { Minimap } from "../../ui/components/Minimap";
-import { EnemyProjectileManager } from "../../enemies/components/EnemyProjectileManager";
+import { Projectiles } from "../../weapons/components/Projectiles";
+import { Explosions } from "../../weapons/components/Explosions";
+import { EcsInspector } from "../../ui/components/EcsInspector";
+import { TouchControls } from "../../ui/components/TouchControls";
+import { isTouchDevice } from "../input/touchControls";
+import { useGameStore } from "../../../stores/gameStore";
+import { moveKeysLabel, useBindingLabel } from "../input/useBindingLabel";
+import { serializeRecording } from "../input/inputRecording";
+
+/**
+ * Start recording input, or stop and download the recording for a bug report,
+ * to replay in a HeadlessSimulation
+ */
+function toggleInputRecording() {
+  const store = useGameStore.getState();
+  if (!store.inputRecorder) {
+    store.startInputRecording();
+    return;
+  }
+
+  const recording = store.stopInputRecording();
+  if (!recording) return;
+
+  const url = URL.createObjectURL(
+    new Blob([serializeRecording(recording)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `input-recording-${recording.seed}-${recording.ticks}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 /**
  * Main game canvas component
  */
 export function GameCanvas() {
-  // Define specific keyboard control mapping to make movement reliable
-  const keyboardMap = [
-    { name: "forward", keys: ["w", "ArrowUp"] },
-    { name: "backward", keys: ["s", "ArrowDown"] },
-    { name: "left", keys: ["a", "ArrowLeft"] },
-    { name: "right", keys: ["d", "ArrowRight"] },
-    { name: "jump", keys: ["Space"] },
-    { name: "sprint", keys: ["ShiftLeft", "Shift"] },
-    { name: "slide", keys: ["ControlLeft", "Control"] },
-    { name: "shoot", keys: ["Mouse0"] },
-    { name: "reload", keys: ["r"] },
-  ];
+  const ecs = useGameStore((state) => state.ecs);
+  const showDebug = useGameStore((state) => state.showDebug);
+  const frameDebugger = useGameStore((state) => state.frameDebugger);
+  const bindingLabel = useBindingLabel();
+  const [showTouchControls] = useState(isTouchDevice);
+
+  // Create the ECS and start its loop with the canvas
+  useEffect(() => {
+    const store = useGameStore.getState();
+    store.initialize();
+    store.startGame();
+
+    return () => useGameStore.getState().stopGame();
+  }, []);
+
+  // F3 toggles the debug overlays, F9 records input, in development builds
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === 'F3') {
+        event.preventDefault();
+        useGameStore.getState().toggleDebug();
+      } else if (event.code === 'F9') {
+        event.preventDefault();
+        toggleInputRecording();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Frame-step hotkeys, only while the debug overlays are shown
+  useEffect(() => {
+    if (!showDebug || !frameDebugger) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case 'Backslash':
+          frameDebugger.togglePause();
+          break;
+        case 'BracketRight':
+          frameDebugger.step(event.shiftKey ? 10 : 1);
+          break;
+        case 'BracketLeft':
+          if (event.shiftKey) {
+            frameDebugger.rewindSeconds(1);
+          } else {
+            frameDebugger.rewind(1);
+          }
+          break;
+        case 'Minus':
+          frameDebugger.cycleSpeed(-1);
+          break;
+        case 'Equal':
+          frameDebugger.cycleSpeed(1);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showDebug, frameDebugger]);
 
   return (
     <div className="absolute inset-0 w-full h-full">
-      <KeyboardControls map={keyboardMap}>
-        <Canvas 
-          shadows 
-          style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
-          camera={{ position: [0, 1.6, 0], fov: 75 }}
-        >
-          {/* Performance monitor */}
-          <Stats />
-          
-          {/* Environment */}
-          <ambientLight intensity={0.3} />
-          <directionalLight
-            position={[10, 10, 5]}
-            intensity={1}
-            castShadow
-            shadow-mapSize={2048}
-          />
-          <Sky sunPosition={[100, 20, 100]} />
-          <Environment preset="forest" />
-
-          {/* Game physics and entities */}
-          <Physics debug={false}>
-            <Suspense fallback={null}>
-              {/* Test level */}
-              <TestLevel />
-
-              {/* Player */}
-              <PlayerController position={[0, 2, 0]} />
-              
-              {/* Enemy projectiles */}
-              <EnemyProjectileManager />
-            </Suspense>
-          </Physics>
-        </Canvas>
-
-        {/* UI Elements */}
-        <div className="pointer-events-none">
-          <EnhancedHUD />
-          <div className="absolute top-6 right-6 w-40 h-40">
-            <Minimap size={200} />
-          </div>
-          
-          {/* Debug tools - only in development */}
-          {process.env.NODE_ENV !== 'production' && (
-            <div className="absolute top-16 left-2 bg-black bg-opacity-70 text-white p-2 text-xs font-mono">
-              <div>WASD = Move, Mouse = Look</div>
-              <div>Space = Jump, Shift = Sprint</div>
-              <div>Left Click = Shoot, R = Reload</div>
-            </div>
-          )}
+      <Canvas 
+        shadows 
+        style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
+        camera={{ position: [0, 1.6, 0], fov: 75 }}
+      >
+        {/* Performance monitor */}
+        <Stats />
+        
+        {/* Environment */}
+        <ambientLight intensity={0.3} />
+        <directionalLight
+          position={[10, 10, 5]}
+          intensity={1}
+          castShadow
+          shadow-mapSize={2048}
+        />
+        <Sky sunPosition={[100, 20, 100]} />
+        <Environment preset="forest" />
+
+        {/* Game physics and entities */}
+        <Physics debug={false}>
+          <Suspense fallback={null}>
+            {/* Test level */}
+            <TestLevel />
+
+            {/* Player */}
+            <PlayerController position={[0, 2, 0]} />
+            
+            {/* Player and enemy projectiles */}
+            <Projectiles />
+
+            {/* Explosion effects */}
+            <Explosions />
+          </Suspense>
+        </Physics>
+      </Canvas>
+
+      {/* UI Elements */}
+      <div className="pointer-events-none">
+        <EnhancedHUD />
+        <div className="absolute top-6 right-6 w-40 h-40">
+          <Minimap size={200} />
         </div>
-      </KeyboardControls>
+        
+        {/* Virtual stick and buttons */}
+        {showTouchControls && <TouchControls />}
+        
+        {/* Debug tools - only in development */}
+        {process.env.NODE_ENV !== 'production' && (
+          <div className="absolute top-16 left-2 bg-black bg-opacity-70 text-white p-2 text-xs font-mono">
+            <div>{moveKeysLabel(bindingLabel)} = Move, Mouse = Look</div>
+            <div>{bindingLabel("jump")} = Jump, {bindingLabel("sprint")} = Sprint</div>
+            <div>{bindingLabel("fire")} = Shoot, {bindingLabel("reload")} = Reload</div>
+            <div>F3 = ECS inspector, F9 = Record input</div>
+            {showDebug && frameDebugger && (
+              <>
+                <div>{"\\"} = Pause, ] = Step (Shift: 10)</div>
+                <div>[ = Rewind tick (Shift: 1s), -/= = Speed</div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* ECS profiler and entity inspector */}
+        {import.meta.env.DEV && showDebug && ecs && (
+          <EcsInspector ecs={ecs} frameDebugger={frameDebugger} />
+        )}
+      </div>
     </div>
   );
 }
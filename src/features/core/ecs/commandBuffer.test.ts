@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CommandBuffer, CommandTarget } from "./commandBuffer";
+import { createComponent } from "./components";
+import { ECS } from "./ecs";
+import { RandomService } from "./random";
+import { System } from "./types";
+
+describe("CommandBuffer", () => {
+  let ecs: ECS;
+  let commands: CommandBuffer;
+  let counter: number;
+
+  beforeEach(() => {
+    ecs = new ECS({ random: new RandomService(3), validateComponents: true, profile: false });
+    counter = 0;
+    commands = new CommandBuffer({ createId: () => `e${++counter}` });
+  });
+
+  const transform = (x: number) => createComponent("transform", { position: [x, 0, 0] });
+
+  it("queues changes until applied", () => {
+    const id = commands.spawn({ transform: transform(1) });
+
+    expect(id).toBe("e1");
+    expect(commands.pending).toBe(1);
+    expect(ecs.getEntity(id)).toBeUndefined();
+
+    commands.apply(ecs);
+
+    expect(commands.pending).toBe(0);
+    expect(ecs.getEntity(id)?.transform?.position).toEqual([1, 0, 0]);
+  });
+
+  it("applies commands queued while applying in the same call", () => {
+    // Every spawned entity gets a pickup next to it, like an event handler would
+    const target: CommandTarget = {
+      getEntity: (id) => ecs.getEntity(id),
+      getDescendants: (id) => ecs.getDescendants(id),
+      removeEntity: (id) => ecs.removeEntity(id),
+      addComponent: (id, name, data) => ecs.addComponent(id, name, data),
+      removeComponent: (id, name) => ecs.removeComponent(id, name),
+      createEntity: (components, id) => {
+        const entity = ecs.createEntity(components, id);
+        if (!entity.pickup) commands.spawn({ pickup: createComponent("pickup") });
+        return entity;
+      },
+    };
+    commands.spawn({ transform: transform(0) });
+
+    commands.apply(target);
+
+    expect(commands.pending).toBe(0);
+    expect(ecs.getEntity("e2")?.pickup).toBeDefined();
+  });
+
+  describe("undo", () => {
+    it("removes spawned entities", () => {
+      const id = commands.spawn({ transform: transform(1) });
+      commands.apply(ecs);
+
+      commands.undo(ecs);
+
+      expect(ecs.getEntity(id)).toBeUndefined();
+      expect(commands.getUndoLog()).toHaveLength(0);
+    });
+
+    it("brings destroyed entities back with their children", () => {
+      const parent = ecs.createEntity({ transform: transform(1) }, "parent");
+      ecs.createEntity({ transform: transform(2), hierarchy: { parent: "parent" } }, "child");
+
+      commands.destroy(parent.id);
+      commands.apply(ecs);
+      expect(ecs.getEntity("child")).toBeUndefined();
+
+      commands.undo(ecs);
+
+      expect(ecs.getEntity("parent")?.transform?.position).toEqual([1, 0, 0]);
+      expect(ecs.getEntity("child")?.hierarchy?.parent).toBe("parent");
+      expect(ecs.getWorld().getChildren("parent").map((child) => child.id)).toEqual(["child"]);
+    });
+
+    it("restores replaced and removed components", () => {
+      const entity = ecs.createEntity({ transform: transform(1) });
+
+      commands.addComponent(entity.id, "transform", { position: [5, 0, 0] });
+      commands.addComponent(entity.id, "pickup");
+      commands.removeComponent(entity.id, "transform");
+      commands.apply(ecs);
+      expect(ecs.getEntity(entity.id)?.transform).toBeUndefined();
+
+      commands.undo(ecs);
+      expect(ecs.getEntity(entity.id)?.transform?.position).toEqual([5, 0, 0]);
+
+      commands.undo(ecs, 2);
+      expect(ecs.getEntity(entity.id)?.transform?.position).toEqual([1, 0, 0]);
+      expect(ecs.getEntity(entity.id)?.pickup).toBeUndefined();
+    });
+
+    it("doesn't log commands that changed nothing", () => {
+      commands.destroy("missing");
+      commands.removeComponent("missing", "transform");
+      commands.addComponent("missing", "transform");
+      commands.apply(ecs);
+
+      expect(commands.getUndoLog()).toHaveLength(0);
+    });
+
+    it("keeps a bounded log, dropping the oldest entries", () => {
+      commands = new CommandBuffer({ maxUndoEntries: 2, createId: () => `e${++counter}` });
+      for (let i = 0; i < 3; i++) commands.spawn();
+      commands.apply(ecs, { frame: 4, phase: "simulation" });
+
+      expect(commands.getUndoLog().map((entry) => entry.command)).toEqual([
+        { type: "spawn", entityId: "e2", components: {} },
+        { type: "spawn", entityId: "e3", components: {} },
+      ]);
+      expect(commands.getUndoLog()[0]).toMatchObject({ frame: 4, phase: "simulation" });
+
+      commands.undo(ecs, 5);
+      expect(ecs.getEntity("e1")).toBeDefined();
+      expect(ecs.getEntity("e2")).toBeUndefined();
+    });
+  });
+
+  describe("sync points", () => {
+    // Records which pickups each observer could see when it ran
+    const seen: Record<string, string[]> = {};
+    let spawned: string;
+
+    function observer(name: string, phase: System["phase"]): System {
+      return {
+        name,
+        phase,
+        update: (world) => {
+          seen[name] = world.with("pickup").map((entity) => entity.id);
+        },
+      };
+    }
+
+    beforeEach(() => {
+      for (const name of Object.keys(seen)) delete seen[name];
+
+      ecs.registerSystem({
+        name: "spawner",
+        phase: "simulation",
+        update: (world) => {
+          spawned = world.commands.spawn({ pickup: createComponent("pickup") });
+        },
+      });
+      ecs.registerSystem(observer("earlierPhase", "input"));
+      ecs.registerSystem(observer("samePhase", "simulation"));
+      ecs.registerSystem(observer("nextPhase", "physics"));
+      ecs.init();
+    });
+
+    it("applies a phase's commands before the next phase runs", () => {
+      ecs.update(1 / 60, 0);
+
+      expect(seen.earlierPhase).toEqual([]);
+      expect(seen.samePhase).toEqual([]);
+      expect(seen.nextPhase).toEqual([spawned]);
+      expect(ecs.commands.getUndoLog()).toMatchObject([{ frame: 1, phase: "simulation" }]);
+    });
+
+    it("applies commands queued outside the update first", () => {
+      const external = ecs.commands.spawn({ pickup: createComponent("pickup") });
+
+      ecs.update(1 / 60, 0);
+
+      expect(seen.earlierPhase).toEqual([external]);
+      expect(ecs.commands.getUndoLog()[0]).toMatchObject({ frame: 1, phase: "external" });
+    });
+  });
+});
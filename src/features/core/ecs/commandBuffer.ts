@@ -0,0 +1,249 @@
+import { nanoid } from "nanoid";
+import { ComponentOverrides, resolvePrefab } from "./prefabs";
+import {
+  ComponentName,
+  ComponentTypes,
+  Entity,
+  EntityComponents,
+  SystemPhase,
+} from "./types";
+
+// Structural change recorded by a command buffer
+export type EntityCommand =
+  | { type: "spawn"; entityId: string; components: EntityComponents }
+  | { type: "destroy"; entityId: string }
+  | {
+      type: "addComponent";
+      entityId: string;
+      component: ComponentName;
+      data: Partial<ComponentTypes[ComponentName]>;
+    }
+  | { type: "removeComponent"; entityId: string; component: ComponentName };
+
+// An applied command together with the commands that revert it
+export interface UndoEntry {
+  command: EntityCommand;
+  inverse: EntityCommand[];
+  frame: number;
+  phase: SystemPhase | "external";
+}
+
+/**
+ * The subset of the ECS a command buffer writes to
+ */
+export interface CommandTarget {
+  getEntity(entityId: string): Entity | undefined;
+  getDescendants(entityId: string): Entity[];
+  createEntity(components?: EntityComponents, entityId?: string): Entity;
+  removeEntity(entityId: string): void;
+  addComponent<K extends ComponentName>(
+    entityId: string,
+    componentType: K,
+    componentData?: Partial<ComponentTypes[K]>
+  ): void;
+  removeComponent(entityId: string, componentType: ComponentName): void;
+}
+
+/**
+ * Queue of structural changes (spawn, destroy, add/remove component)
+ *
+ * Systems record changes here during `update` instead of touching the world
+ * directly, so no query array changes while another system iterates it. The
+ * ECS applies queued commands at the sync point after each phase. Every
+ * applied command is kept in a bounded undo log for debugging tools.
+ */
+export class CommandBuffer {
+  private commands: EntityCommand[] = [];
+  private undoLog: UndoEntry[] = [];
+  private maxUndoEntries: number;
+  private createId: () => string;
+
+  constructor(options?: { maxUndoEntries?: number; createId?: () => string }) {
+    this.maxUndoEntries = options?.maxUndoEntries ?? 256;
+    this.createId = options?.createId ?? nanoid;
+  }
+
+  /**
+   * Queue a new entity, returns the id it will be created with
+   */
+  spawn(components: EntityComponents = {}): string {
+    const entityId = this.createId();
+    this.commands.push({ type: "spawn", entityId, components });
+    return entityId;
+  }
+
+  /**
+   * Queue a new entity built from a named prefab, returns its id
+   */
+  spawnPrefab(prefab: string, overrides: ComponentOverrides = {}): string {
+    return this.spawn(resolvePrefab(prefab, overrides));
+  }
+
+  /**
+   * Queue removal of an entity
+   */
+  destroy(entityId: string): void {
+    this.commands.push({ type: "destroy", entityId });
+  }
+
+  /**
+   * Queue adding (or replacing) a component
+   */
+  addComponent<K extends ComponentName>(
+    entityId: string,
+    component: K,
+    data: Partial<ComponentTypes[K]> = {}
+  ): void {
+    this.commands.push({ type: "addComponent", entityId, component, data });
+  }
+
+  /**
+   * Queue removal of a component
+   */
+  removeComponent(entityId: string, component: ComponentName): void {
+    this.commands.push({ type: "removeComponent", entityId, component });
+  }
+
+  /**
+   * Number of commands waiting for the next sync point
+   */
+  get pending(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Apply all queued commands in order
+   *
+   * Commands queued while applying (for example by event handlers) are
+   * applied in the same call.
+   */
+  apply(
+    target: CommandTarget,
+    context: { frame: number; phase: UndoEntry["phase"] } = {
+      frame: 0,
+      phase: "external",
+    }
+  ): void {
+    while (this.commands.length > 0) {
+      const commands = this.commands;
+      this.commands = [];
+
+      for (const command of commands) {
+        const inverse = this.execute(target, command);
+        if (inverse) {
+          this.record({ command, inverse, ...context });
+        }
+      }
+    }
+  }
+
+  /**
+   * Revert the most recently applied commands
+   */
+  undo(target: CommandTarget, count: number = 1): void {
+    for (let i = 0; i < count && this.undoLog.length > 0; i++) {
+      const entry = this.undoLog.pop()!;
+      for (const command of entry.inverse) {
+        this.execute(target, command);
+      }
+    }
+  }
+
+  /**
+   * Applied commands, oldest first
+   */
+  getUndoLog(): readonly UndoEntry[] {
+    return this.undoLog;
+  }
+
+  /**
+   * Drop queued commands and the undo log
+   */
+  clear(): void {
+    this.commands = [];
+    this.undoLog = [];
+  }
+
+  /**
+   * Execute one command, returns its inverse or null if it did nothing
+   */
+  private execute(
+    target: CommandTarget,
+    command: EntityCommand
+  ): EntityCommand[] | null {
+    switch (command.type) {
+      case "spawn": {
+        if (target.getEntity(command.entityId)) return null;
+        target.createEntity(structuredClone(command.components), command.entityId);
+        return [{ type: "destroy", entityId: command.entityId }];
+      }
+
+      case "destroy": {
+        const entity = target.getEntity(command.entityId);
+        if (!entity) return null;
+
+        // Descendants are destroyed with their parent, so restore them too
+        const removed = structuredClone([
+          entity,
+          ...target.getDescendants(command.entityId),
+        ]);
+        target.removeEntity(command.entityId);
+        return removed.map(({ id, ...components }) => ({
+          type: "spawn",
+          entityId: id,
+          components,
+        }));
+      }
+
+      case "addComponent": {
+        const entity = target.getEntity(command.entityId);
+        if (!entity) return null;
+
+        const previous = entity[command.component];
+        target.addComponent(command.entityId, command.component, command.data);
+        return previous === undefined
+          ? [
+              {
+                type: "removeComponent",
+                entityId: command.entityId,
+                component: command.component,
+              },
+            ]
+          : [
+              {
+                type: "addComponent",
+                entityId: command.entityId,
+                component: command.component,
+                data: structuredClone(previous),
+              },
+            ];
+      }
+
+      case "removeComponent": {
+        const entity = target.getEntity(command.entityId);
+        const previous = entity?.[command.component];
+        if (previous === undefined) return null;
+
+        target.removeComponent(command.entityId, command.component);
+        return [
+          {
+            type: "addComponent",
+            entityId: command.entityId,
+            component: command.component,
+            data: structuredClone(previous),
+          },
+        ];
+      }
+    }
+  }
+
+  /**
+   * Append to the undo log, dropping the oldest entry when full
+   */
+  private record(entry: UndoEntry): void {
+    this.undoLog.push(entry);
+    if (this.undoLog.length > this.maxUndoEntries) {
+      this.undoLog.shift();
+    }
+  }
+}
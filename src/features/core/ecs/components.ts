@@ -0,0 +1,294 @@
+import { ComponentName, ComponentTypes, Entity, Vec3 } from "./types";
+
+/**
+ * Declaration of a component type
+ */
+export interface ComponentDefinition<K extends ComponentName = ComponentName> {
+  name: K;
+  // Factory for default values, called once per component instance
+  defaults: () => ComponentTypes[K];
+  // Optional runtime check, returns an error message when the data is invalid
+  validate?: (data: ComponentTypes[K]) => string | undefined;
+  // Fields holding entity ids (or arrays of ids), remapped when restoring snapshots
+  entityRefs?: (keyof ComponentTypes[K] & string)[];
+}
+
+// All registered component definitions, keyed by name
+const registry = new Map<ComponentName, ComponentDefinition>();
+
+/**
+ * Register a component type with its defaults and validator
+ */
+export function defineComponent<K extends ComponentName>(
+  definition: ComponentDefinition<K>
+): ComponentDefinition<K> {
+  if (registry.has(definition.name)) {
+    throw new Error(`[ECS] Component "${definition.name}" is already defined`);
+  }
+
+  registry.set(definition.name, definition as unknown as ComponentDefinition);
+  return definition;
+}
+
+/**
+ * Get the definition of a component type
+ */
+export function getComponentDefinition<K extends ComponentName>(
+  name: K
+): ComponentDefinition<K> | undefined {
+  return registry.get(name) as ComponentDefinition<K> | undefined;
+}
+
+/**
+ * Get the names of all registered components
+ */
+export function getComponentNames(): ComponentName[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Build component data by merging overrides onto the registered defaults
+ */
+export function createComponent<K extends ComponentName>(
+  name: K,
+  data: Partial<ComponentTypes[K]> = {}
+): ComponentTypes[K] {
+  const definition = getComponentDefinition(name);
+  if (!definition) {
+    throw new Error(`[ECS] Unknown component "${name}"`);
+  }
+
+  return { ...definition.defaults(), ...data };
+}
+
+/**
+ * Check a component value against its definition
+ *
+ * Throws on unknown component names and on validator failures.
+ */
+export function validateComponent(
+  entityId: string,
+  name: string,
+  data: unknown
+): void {
+  const definition = registry.get(name as ComponentName);
+  if (!definition) {
+    throw new Error(
+      `[ECS] Unknown component "${name}" on entity ${entityId}. ` +
+        `Known components: ${getComponentNames().join(", ")}`
+    );
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new Error(
+      `[ECS] Component "${name}" on entity ${entityId} must be an object`
+    );
+  }
+
+  const error = definition.validate?.(data as ComponentTypes[ComponentName]);
+  if (error) {
+    throw new Error(
+      `[ECS] Invalid "${name}" component on entity ${entityId}: ${error}`
+    );
+  }
+}
+
+/**
+ * Check every component on an entity
+ */
+export function validateEntity(entity: Entity): void {
+  for (const [name, data] of Object.entries(entity)) {
+    if (name === "id") continue;
+    validateComponent(entity.id, name, data);
+  }
+}
+
+// Validation helpers
+function isVec3(value: unknown): value is Vec3 {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Core component definitions
+
+defineComponent({
+  name: "transform",
+  defaults: () => ({
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+  }),
+  validate: (data) => {
+    if (!isVec3(data.position)) return "position must be a [x, y, z] tuple";
+    if (!isVec3(data.rotation)) return "rotation must be a [x, y, z] tuple";
+    if (!isVec3(data.scale)) return "scale must be a [x, y, z] tuple";
+  },
+});
+
+defineComponent({
+  name: "physics",
+  defaults: () => ({
+    velocity: [0, 0, 0],
+    mass: 1,
+    collider: "box",
+    static: false,
+  }),
+  validate: (data) => {
+    if (!isVec3(data.velocity)) return "velocity must be a [x, y, z] tuple";
+    if (!isNumber(data.mass) || data.mass < 0) return "mass must be >= 0";
+    if (typeof data.static !== "boolean") return "static must be a boolean";
+    if (!["box", "sphere", "capsule"].includes(data.collider)) {
+      return "collider must be box, sphere or capsule";
+    }
+    if (data.size !== undefined && !(isVec3(data.size) && data.size.every((n) => n > 0))) {
+      return "size must be a [x, y, z] tuple of positive numbers";
+    }
+    if (data.offset !== undefined && !isVec3(data.offset)) {
+      return "offset must be a [x, y, z] tuple";
+    }
+  },
+});
+
+defineComponent({
+  name: "camera",
+  defaults: () => ({
+    fov: 75,
+    near: 0.1,
+    far: 1000,
+    isActive: false,
+  }),
+  validate: (data) => {
+    if (!isNumber(data.fov) || data.fov <= 0) return "fov must be > 0";
+    if (!(data.near > 0 && data.near < data.far)) {
+      return "near must be > 0 and less than far";
+    }
+  },
+});
+
+defineComponent({
+  name: "player",
+  defaults: () => ({
+    health: 100,
+    speed: 5,
+    jumpForce: 5,
+    isJumping: false,
+    weapons: [],
+    currentWeapon: "",
+  }),
+  validate: (data) => {
+    if (!isNumber(data.health)) return "health must be a number";
+    if (!isNumber(data.speed) || data.speed < 0) return "speed must be >= 0";
+    if (!Array.isArray(data.weapons)) return "weapons must be an array";
+  },
+});
+
+defineComponent({
+  name: "weapon",
+  defaults: () => ({
+    name: "pistol",
+    damage: 15,
+    fireRate: 0.25,
+    ammo: 12,
+    maxAmmo: 12,
+    reloadTime: 1.2,
+    isReloading: false,
+    lastFired: 0,
+    projectileType: "hitscan",
+  }),
+  validate: (data) => {
+    if (!isNumber(data.damage) || data.damage < 0) return "damage must be >= 0";
+    if (!isNumber(data.ammo) || data.ammo < 0 || data.ammo > data.maxAmmo) {
+      return "ammo must be between 0 and maxAmmo";
+    }
+  },
+});
+
+const ENEMY_STATES = ["idle", "patrol", "chase", "attack", "dead"];
+
+defineComponent({
+  name: "enemy",
+  defaults: () => ({
+    type: "grunt",
+    health: 100,
+    damage: 10,
+    speed: 3,
+    state: "idle",
+    detectionRadius: 15,
+    attackRadius: 10,
+  }),
+  entityRefs: ["target"],
+  validate: (data) => {
+    if (!isNumber(data.health)) return "health must be a number";
+    if (!ENEMY_STATES.includes(data.state)) {
+      return `state must be one of ${ENEMY_STATES.join(", ")}`;
+    }
+  },
+});
+
+defineComponent({
+  name: "projectile",
+  defaults: () => ({
+    damage: 10,
+    speed: 20,
+    source: "",
+    lifetime: 5,
+    createdAt: 0,
+  }),
+  entityRefs: ["source"],
+  validate: (data) => {
+    if (!isNumber(data.lifetime) || data.lifetime <= 0) {
+      return "lifetime must be > 0";
+    }
+  },
+});
+
+const PICKUP_TYPES = ["health", "armor", "ammo", "score"];
+
+defineComponent({
+  name: "pickup",
+  defaults: () => ({
+    type: "health",
+    amount: 25,
+    respawnTime: 30,
+  }),
+  validate: (data) => {
+    if (!PICKUP_TYPES.includes(data.type)) {
+      return `type must be one of ${PICKUP_TYPES.join(", ")}`;
+    }
+    if (!isNumber(data.amount) || data.amount < 0) return "amount must be >= 0";
+  },
+});
+
+defineComponent({
+  name: "hierarchy",
+  defaults: () => ({
+    parent: "",
+  }),
+  entityRefs: ["parent"],
+  validate: (data) => {
+    if (typeof data.parent !== "string" || data.parent === "") {
+      return "parent must be an entity id";
+    }
+  },
+});
+
+defineComponent({
+  name: "worldTransform",
+  defaults: () => ({
+    matrix: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+    position: [0, 0, 0],
+  }),
+  validate: (data) => {
+    if (!Array.isArray(data.matrix) || data.matrix.length !== 16) {
+      return "matrix must have 16 elements";
+    }
+    if (!isVec3(data.position)) return "position must be a [x, y, z] tuple";
+  },
+});
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createComponent } from "./components";
+import { ECS, EntityQuery } from "./ecs";
+import { RandomService } from "./random";
+import { Entity } from "./types";
+
+describe("World", () => {
+  let ecs: ECS;
+
+  beforeEach(() => {
+    ecs = new ECS({ random: new RandomService(5), validateComponents: true, profile: false });
+  });
+
+  const world = () => ecs.getWorld();
+  const ids = (entities: readonly Entity[]) => entities.map((entity) => entity.id);
+
+  // Entities "a" to "d", all with a transform
+  function addEntities() {
+    for (const id of ["a", "b", "c", "d"]) {
+      ecs.createEntity({ transform: createComponent("transform") }, id);
+    }
+  }
+
+  describe("entity storage", () => {
+    it("swaps the last entity into a removed slot", () => {
+      addEntities();
+
+      ecs.removeEntity("b");
+
+      expect(ids(world().entities)).toEqual(["a", "d", "c"]);
+      expect(world().get("d")?.id).toBe("d");
+      expect(world().get("b")).toBeUndefined();
+      expect(world().has("b")).toBe(false);
+    });
+
+    it("keeps lookups right through removals at either end", () => {
+      addEntities();
+
+      ecs.removeEntity("d");
+      ecs.removeEntity("a");
+      ecs.createEntity({}, "e");
+
+      expect(ids(world().entities)).toEqual(["c", "b", "e"]);
+      for (const id of ["b", "c", "e"]) {
+        expect(world().get(id)?.id).toBe(id);
+      }
+    });
+
+    it("ignores removing an entity twice", () => {
+      addEntities();
+
+      ecs.removeEntity("a");
+      ecs.removeEntity("a");
+
+      expect(ids(world().entities)).toEqual(["d", "b", "c"]);
+    });
+
+    it("removes children along with their parent", () => {
+      addEntities();
+      ecs.setParent("b", "a");
+      ecs.setParent("c", "b");
+
+      ecs.removeEntity("a");
+
+      expect(ids(world().entities)).toEqual(["d"]);
+      expect(world().get("c")).toBeUndefined();
+    });
+  });
+
+  describe("queries", () => {
+    it("returns the same live array for the same components in any order", () => {
+      const query = world().with("transform", "pickup");
+
+      expect(world().with("pickup", "transform")).toBe(query);
+      expect(world().with("pickup", "transform", "pickup")).toBe(query);
+    });
+
+    it("picks up entities that existed before the query", () => {
+      addEntities();
+      ecs.addComponent("c", "pickup");
+
+      expect(ids(world().with("pickup"))).toEqual(["c"]);
+    });
+
+    it("follows entities as they're added, restructured and removed", () => {
+      addEntities();
+      const pickups = world().with("transform", "pickup");
+      expect(pickups).toEqual([]);
+
+      ecs.addComponent("b", "pickup");
+      ecs.addComponent("d", "pickup");
+      ecs.createEntity({ transform: createComponent("transform"), pickup: createComponent("pickup") }, "e");
+      expect(ids(pickups)).toEqual(["b", "d", "e"]);
+
+      ecs.removeComponent("b", "transform");
+      expect(ids(pickups)).toEqual(["e", "d"]);
+
+      ecs.removeEntity("e");
+      expect(ids(pickups)).toEqual(["d"]);
+    });
+
+    it("keeps membership through plain value changes", () => {
+      addEntities();
+      const transforms = world().with("transform");
+
+      ecs.addComponent("a", "transform", { position: [1, 2, 3] });
+
+      expect(ids(transforms)).toEqual(["a", "b", "c", "d"]);
+      expect(transforms[0].transform.position).toEqual([1, 2, 3]);
+    });
+
+    it("reports the size of every cached query", () => {
+      addEntities();
+      ecs.addComponent("a", "pickup");
+      world().with("transform");
+      world().with("pickup");
+
+      expect(world().getQueryStats()).toEqual([
+        { components: ["transform"], size: 4 },
+        { components: ["pickup"], size: 1 },
+      ]);
+    });
+  });
+
+  describe("EntityQuery", () => {
+    it("removes in place by swapping with the last member", () => {
+      const query = new EntityQuery(["transform"]);
+      for (const id of ["a", "b", "c"]) query.insert({ id });
+
+      query.delete("a");
+
+      expect(ids(query.entities)).toEqual(["c", "b"]);
+      expect(query.has("a")).toBe(false);
+      query.delete("c");
+      expect(ids(query.entities)).toEqual(["b"]);
+      expect(query.has("b")).toBe(true);
+    });
+
+    it("replaces stale references instead of adding duplicates", () => {
+      const query = new EntityQuery(["transform"]);
+      query.insert({ id: "a" });
+      const fresh = { id: "a", pickup: createComponent("pickup") };
+
+      query.insert(fresh);
+
+      expect(query.entities).toEqual([fresh]);
+    });
+  });
+});
@@ -1,57 +1,369 @@
-import { nanoid } from "nanoid";
-import { Entity, System } from "./types";
+import { CommandBuffer } from "./commandBuffer";
+import { createComponent, validateComponent, validateEntity } from "./components";
+import { EventBus, GameEvents } from "./events";
+import { InterpolatedTransform, TransformHistory } from "./interpolation";
+import "./prefabLibrary";
+import { ComponentOverrides, resolvePrefab } from "./prefabs";
+import { SystemProfiler } from "./profiler";
+import { RandomService, gameRandom } from "./random";
+import { getSystemPhase, resolveSystemOrder } from "./scheduler";
+import {
+  createSnapshot,
+  migrateSnapshot,
+  remapSnapshotIds,
+  WorldSnapshot,
+} from "./serialization";
+import {
+  ComponentName,
+  ComponentTypes,
+  Entity,
+  EntityComponents,
+  EntityWith,
+  System,
+  SystemPhase,
+} from "./types";
+
+/**
+ * Cached set of entities that have every component in a signature.
+ * Membership is kept up to date by the World as entities change, so
+ * systems can read `entities` every frame without filtering the world.
+ */
+export class EntityQuery<T extends Entity = Entity> {
+  readonly components: readonly string[];
+  readonly entities: T[] = [];
+  private indices = new Map<string, number>();
+
+  constructor(components: readonly string[]) {
+    this.components = components;
+  }
+
+  /**
+   * Number of entities currently matching the query
+   */
+  get size(): number {
+    return this.entities.length;
+  }
+
+  /**
+   * Check whether an entity has every component in the signature
+   */
+  matches(entity: Entity): boolean {
+    return this.components.every(
+      (component) => entity[component as ComponentName] !== undefined
+    );
+  }
+
+  /**
+   * Check whether an entity is currently part of the query
+   */
+  has(entityId: string): boolean {
+    return this.indices.has(entityId);
+  }
+
+  /**
+   * Add or remove an entity depending on whether it matches
+   */
+  refresh(entity: Entity): void {
+    if (this.matches(entity)) {
+      this.insert(entity);
+    } else {
+      this.delete(entity.id);
+    }
+  }
+
+  /**
+   * Insert an entity, replacing a stale reference if already present
+   */
+  insert(entity: Entity): void {
+    const index = this.indices.get(entity.id);
+    if (index !== undefined) {
+      this.entities[index] = entity as T;
+      return;
+    }
+
+    this.indices.set(entity.id, this.entities.length);
+    this.entities.push(entity as T);
+  }
+
+  /**
+   * Remove an entity in O(1) by swapping it with the last element
+   */
+  delete(entityId: string): void {
+    const index = this.indices.get(entityId);
+    if (index === undefined) return;
+
+    const last = this.entities.pop()!;
+    if (index < this.entities.length) {
+      this.entities[index] = last;
+      this.indices.set(last.id, index);
+    }
+    this.indices.delete(entityId);
+  }
+}
 
 /**
  * Custom World class that manages entities
+ *
+ * Entities are stored in a dense array with an id → index map (a sparse
+ * set), so lookups, insertions and removals are O(1). Component queries
+ * created through `with` are cached per component set and updated
+ * incrementally whenever an entity is added, removed or restructured.
  */
 class World {
   entities: Entity[] = [];
+  readonly events = new EventBus<GameEvents>();
+  readonly commands: CommandBuffer;
+  private indices = new Map<string, number>();
+  private queries = new Map<string, EntityQuery>();
+  private parents = new Map<string, string>(); // child id → parent id
+  private children = new Map<string, Set<string>>(); // parent id → child ids
+
+  constructor(createId: () => string) {
+    this.commands = new CommandBuffer({ createId });
+  }
 
   /**
    * Add an entity to the world
    */
   add(entity: Entity): void {
+    if (this.indices.has(entity.id)) {
+      this.update(entity);
+      return;
+    }
+
+    this.indices.set(entity.id, this.entities.length);
     this.entities.push(entity);
+    this.linkParent(entity);
+
+    for (const query of this.queries.values()) {
+      if (query.matches(entity)) {
+        query.insert(entity);
+      }
+    }
   }
 
   /**
    * Remove an entity from the world
+   *
+   * Children (and their children) are removed along with it.
    */
   remove(entity: Entity): void {
-    const index = this.entities.findIndex((e) => e.id === entity.id);
-    if (index !== -1) {
-      this.entities.splice(index, 1);
+    const index = this.indices.get(entity.id);
+    if (index === undefined) return;
+
+    for (const child of this.getChildren(entity.id)) {
+      this.remove(child);
+    }
+    this.unlinkParent(entity.id);
+    this.children.delete(entity.id);
+
+    const last = this.entities.pop()!;
+    if (index < this.entities.length) {
+      this.entities[index] = last;
+      this.indices.set(last.id, index);
+    }
+    this.indices.delete(entity.id);
+
+    for (const query of this.queries.values()) {
+      query.delete(entity.id);
     }
   }
 
   /**
    * Update an entity in the world
+   *
+   * Call this after adding or removing components so that cached queries
+   * pick up the new component set. Plain value changes don't need it.
    */
   update(entity: Entity): void {
-    const index = this.entities.findIndex((e) => e.id === entity.id);
-    if (index !== -1) {
-      this.entities[index] = entity;
+    const index = this.indices.get(entity.id);
+    if (index === undefined) return;
+
+    this.entities[index] = entity;
+    this.linkParent(entity);
+
+    for (const query of this.queries.values()) {
+      query.refresh(entity);
+    }
+  }
+
+  /**
+   * Get an entity by id
+   */
+  get(entityId: string): Entity | undefined {
+    const index = this.indices.get(entityId);
+    return index === undefined ? undefined : this.entities[index];
+  }
+
+  /**
+   * Check if an entity exists in the world
+   */
+  has(entityId: string): boolean {
+    return this.indices.has(entityId);
+  }
+
+  /**
+   * Get the parent of an entity
+   */
+  getParent(entityId: string): Entity | undefined {
+    const parentId = this.parents.get(entityId);
+    return parentId === undefined ? undefined : this.get(parentId);
+  }
+
+  /**
+   * Get the direct children of an entity
+   */
+  getChildren(entityId: string): Entity[] {
+    const children: Entity[] = [];
+    for (const childId of this.children.get(entityId) ?? []) {
+      const child = this.get(childId);
+      if (child) children.push(child);
+    }
+    return children;
+  }
+
+  /**
+   * Get the ancestors of an entity, nearest first
+   */
+  getAncestors(entityId: string): Entity[] {
+    const ancestors: Entity[] = [];
+    let parent = this.getParent(entityId);
+    while (parent) {
+      ancestors.push(parent);
+      parent = this.getParent(parent.id);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Get every entity below an entity in the hierarchy, depth first
+   */
+  getDescendants(entityId: string): Entity[] {
+    const descendants: Entity[] = [];
+    for (const child of this.getChildren(entityId)) {
+      descendants.push(child, ...this.getDescendants(child.id));
+    }
+    return descendants;
+  }
+
+  /**
+   * Get all entities that have every one of the given components
+   *
+   * The returned array is owned by the cached query and stays live. Systems
+   * should queue structural changes on `commands` rather than making them
+   * while iterating.
+   */
+  with<K extends ComponentName>(...components: K[]): EntityWith<K>[] {
+    return this.getQuery<EntityWith<K>>(components).entities;
+  }
+
+  /**
+   * Get (or create) the cached query for a component set
+   */
+  getQuery<T extends Entity = Entity>(
+    components: readonly ComponentName[]
+  ): EntityQuery<T> {
+    const signature = [...new Set(components)].sort();
+    const key = signature.join("|");
+
+    let query = this.queries.get(key);
+    if (!query) {
+      query = new EntityQuery(signature);
+      for (const entity of this.entities) {
+        if (query.matches(entity)) {
+          query.insert(entity);
+        }
+      }
+      this.queries.set(key, query);
+    }
+
+    return query as unknown as EntityQuery<T>;
+  }
+
+  /**
+   * Entity counts for every cached component query
+   */
+  getQueryStats(): { components: readonly ComponentName[]; size: number }[] {
+    return [...this.queries.values()].map((query) => ({
+      components: query.components as readonly ComponentName[],
+      size: query.size,
+    }));
+  }
+
+  /**
+   * Keep the parent/child index in sync with an entity's hierarchy component
+   */
+  private linkParent(entity: Entity): void {
+    const parentId = entity.hierarchy?.parent;
+    if (this.parents.get(entity.id) === parentId) return;
+
+    this.unlinkParent(entity.id);
+    if (parentId === undefined) return;
+
+    this.parents.set(entity.id, parentId);
+    let siblings = this.children.get(parentId);
+    if (!siblings) {
+      siblings = new Set();
+      this.children.set(parentId, siblings);
+    }
+    siblings.add(entity.id);
+  }
+
+  private unlinkParent(entityId: string): void {
+    const parentId = this.parents.get(entityId);
+    if (parentId === undefined) return;
+
+    this.parents.delete(entityId);
+    const siblings = this.children.get(parentId);
+    siblings?.delete(entityId);
+    if (siblings?.size === 0) {
+      this.children.delete(parentId);
     }
   }
 
   /**
    * Get entities that match a specific query function
+   *
+   * This scans every entity; prefer `with` for component-based lookups.
    */
   query<T extends Entity>(queryFn: (entity: Entity) => entity is T): T[] {
     return this.entities.filter(queryFn) as T[];
   }
 }
 
+export interface ECSOptions {
+  // Check component names and values against the registry (dev builds by default)
+  validateComponents?: boolean;
+  // Time every system update (on by default)
+  profile?: boolean;
+  // Source of gameplay randomness and entity ids, defaults to the shared gameRandom
+  random?: RandomService;
+}
+
 /**
  * Main ECS class that manages entities and systems
  */
 export class ECS {
   private world: World;
   private systems: System[] = [];
+  private schedule: System[] | null = null;
   private isRunning: boolean = false;
+  private frame: number = 0;
+  private validateComponents: boolean;
+  readonly profiler = new SystemProfiler();
+  profilingEnabled: boolean;
+  readonly random: RandomService;
+  // Transforms from before the latest update, for render interpolation
+  private history = new TransformHistory();
 
-  constructor() {
-    this.world = new World();
+  constructor(options: ECSOptions = {}) {
+    this.random = options.random ?? gameRandom;
+    // Ids come from the seeded RNG so replays recreate the same entities
+    const ids = this.random.stream("ids");
+    this.world = new World(() => ids.id());
+    this.validateComponents =
+      options.validateComponents ?? import.meta.env?.DEV ?? true;
+    this.profilingEnabled = options.profile ?? true;
   }
 
   /**
@@ -61,24 +373,105 @@ export class ECS {
     return this.world;
   }
 
+  /**
+   * Get the event bus shared by all systems
+   */
+  get events(): EventBus<GameEvents> {
+    return this.world.events;
+  }
+
+  /**
+   * Get the command buffer systems use for structural changes
+   */
+  get commands(): CommandBuffer {
+    return this.world.commands;
+  }
+
   /**
    * Create a new entity
+   *
+   * Inside a system's `update`, use `world.commands.spawn` instead.
    */
-  createEntity(components: Partial<Entity> = {}): Entity {
+  createEntity(
+    components: EntityComponents = {},
+    entityId: string = this.random.stream("ids").id()
+  ): Entity {
     const entity: Entity = {
-      id: nanoid(),
+      id: entityId,
       ...components,
     };
 
+    if (this.validateComponents) {
+      validateEntity(entity);
+    }
+
     this.world.add(entity);
     return entity;
   }
 
+  /**
+   * Create an entity from a named prefab
+   *
+   * Overrides are merged into the prefab's components, e.g.
+   * `ecs.spawn("grunt", { transform: { position: [4, 0, 2] } })`.
+   */
+  spawn(prefab: string, overrides: ComponentOverrides = {}): Entity {
+    return this.createEntity(resolvePrefab(prefab, overrides));
+  }
+
+  /**
+   * Attach an entity to a parent, or detach it when `parentId` is null
+   *
+   * The child's transform becomes relative to the parent. Both entities get
+   * a `worldTransform` so the hierarchy system keeps world matrices current.
+   */
+  setParent(entityId: string, parentId: string | null): void {
+    const entity = this.getEntity(entityId);
+    if (!entity) {
+      throw new Error(`[ECS] Cannot set parent of unknown entity ${entityId}`);
+    }
+
+    if (parentId === null) {
+      this.removeComponent(entityId, "hierarchy");
+      return;
+    }
+
+    const parent = this.getEntity(parentId);
+    if (!parent) {
+      throw new Error(`[ECS] Cannot parent ${entityId} to unknown entity ${parentId}`);
+    }
+
+    if (
+      parentId === entityId ||
+      this.world.getAncestors(parentId).some((e) => e.id === entityId)
+    ) {
+      throw new Error(
+        `[ECS] Cannot parent ${entityId} to ${parentId}: it would create a cycle`
+      );
+    }
+
+    this.addComponent(entityId, "hierarchy", { parent: parentId });
+    for (const target of [entity, parent]) {
+      if (!target.worldTransform) {
+        this.addComponent(target.id, "worldTransform");
+      }
+    }
+  }
+
+  /**
+   * Get every entity below an entity in the hierarchy, depth first
+   */
+  getDescendants(entityId: string): Entity[] {
+    return this.world.getDescendants(entityId);
+  }
+
   /**
    * Remove an entity by id
+   *
+   * Its descendants are removed as well.
    */
   removeEntity(entityId: string): void {
-    const entity = this.world.entities.find((e) => e.id === entityId);
+    const entity = this.world.get(entityId);
     if (entity) {
       this.world.remove(entity);
     }
@@ -88,22 +481,27 @@ export class ECS {
    * Get an entity by id
    */
   getEntity(entityId: string): Entity | undefined {
-    return this.world.entities.find((e) => e.id === entityId);
+    return this.world.get(entityId);
   }
 
   /**
    * Add a component to an entity
+   *
+   * Missing fields are filled in from the component's registered defaults.
    */
-  addComponent<T extends Record<string, unknown>>(
+  addComponent<K extends ComponentName>(
     entityId: string,
-    componentType: string,
-    componentData: T
+    componentType: K,
+    componentData: Partial<ComponentTypes[K]> = {}
   ): void {
     const entity = this.getEntity(entityId);
     if (entity) {
-      entity[componentType] = {
-        ...componentData,
-      };
+      const component = createComponent(componentType, componentData);
+      if (this.validateComponents) {
+        validateComponent(entityId, componentType, component);
+      }
+
+      entity[componentType] = component as Entity[K];
       this.world.update(entity);
     }
   }
@@ -111,7 +509,7 @@ export class ECS {
   /**
    * Remove a component from an entity
    */
-  removeComponent(entityId: string, componentType: string): void {
+  removeComponent(entityId: string, componentType: ComponentName): void {
     const entity = this.getEntity(entityId);
     if (entity && entity[componentType]) {
       delete entity[componentType];
@@ -119,51 +517,182 @@ export class ECS {
     }
   }
 
+  /**
+   * Serialize every entity and the RNG state into a versioned, JSON-safe snapshot
+   */
+  snapshot(): WorldSnapshot {
+    return {
+      ...createSnapshot(this.world.entities),
+      random: this.random.getState(),
+    };
+  }
+
+  /**
+   * Replace all entities with the contents of a snapshot
+   *
+   * Older snapshot versions are migrated first. By default every entity gets
+   * a fresh id (with entity references rewritten to match); pass
+   * `remapIds: false` to keep the saved ids, e.g. for network sync.
+   * The RNG state stored in the snapshot, if any, is restored as well.
+   * Returns a map from saved ids to the ids used in this world.
+   */
+  restore(
+    blob: unknown,
+    options: { remapIds?: boolean } = {}
+  ): Map<string, string> {
+    let snapshot = migrateSnapshot(blob);
+    if (snapshot.random) {
+      this.random.setState(snapshot.random);
+    }
+    let idMap = new Map(snapshot.entities.map((e) => [e.id, e.id]));
+
+    if (options.remapIds ?? true) {
+      ({ snapshot, idMap } = remapSnapshotIds(snapshot, () =>
+        this.random.stream("ids").id()
+      ));
+    }
+
+    // Pending work refers to entities that are about to disappear
+    this.world.commands.clear();
+    this.world.events.clear();
+    this.history.clear();
+
+    for (const entity of [...this.world.entities]) {
+      this.world.remove(entity);
+    }
+
+    for (const { id, components } of snapshot.entities) {
+      this.createEntity(components, id);
+    }
+
+    return idMap;
+  }
+
   /**
    * Register a system
+   *
+   * Execution order is resolved from phases and before/after constraints.
+   * Before `init` systems may be registered in any order; once running, a
+   * system's dependencies must already be registered.
    */
   registerSystem(system: System): void {
     this.systems.push(system);
-
-    // Sort systems by dependencies
-    this.sortSystems();
+    this.schedule = null;
 
     // Initialize system if ECS is already running
-    if (this.isRunning && system.init) {
-      system.init(this.world);
+    if (this.isRunning) {
+      try {
+        this.getSchedule();
+      } catch (error) {
+        this.systems.pop();
+        this.schedule = null;
+        throw error;
+      }
+
+      if (system.init) {
+        system.init(this.world);
+      }
     }
   }
 
+  /**
+   * Get the resolved system execution order
+   */
+  getSystemOrder(): { name: string; phase: SystemPhase }[] {
+    return this.getSchedule().map((system) => ({
+      name: system.name,
+      phase: getSystemPhase(system),
+    }));
+  }
+
   /**
    * Initialize all systems
    */
   init(): void {
     if (this.isRunning) return;
 
+    // Resolve the schedule first so dependency errors surface before any system starts
+    const schedule = this.getSchedule();
+
     this.isRunning = true;
 
     // Initialize all systems
-    for (const system of this.systems) {
+    for (const system of schedule) {
       if (system.init) {
         system.init(this.world);
       }
     }
   }
 
+  /**
+   * Blend an entity's transform between the previous and the latest update
+   *
+   * `alpha` comes from `GameLoop.getAlpha()`.
+   */
+  getInterpolatedTransform(
+    entityId: string,
+    alpha: number,
+    out: InterpolatedTransform
+  ): InterpolatedTransform | undefined {
+    const entity = this.world.get(entityId);
+    if (!entity?.transform) return undefined;
+
+    return this.history.interpolate(entity, alpha, out);
+  }
+
   /**
    * Update all systems
    */
   update(delta: number, elapsedTime: number): void {
     if (!this.isRunning) return;
 
-    // Update all systems
-    for (const system of this.systems) {
+    this.frame++;
+    const profiling = this.profilingEnabled;
+    const frameStart = profiling ? performance.now() : 0;
+
+    // Apply changes queued outside of the update (UI, network, etc.)
+    this.applyCommands("external");
+
+    // Remember where everything was so renders can blend towards the new state
+    this.history.capture(this.world.entities, this.frame);
+
+    // Update all systems, applying structural changes between phases
+    const schedule = this.getSchedule();
+    schedule.forEach((system, index) => {
       if (system.update) {
+        const start = profiling ? performance.now() : 0;
         system.update(this.world, delta, elapsedTime);
+        if (profiling) {
+          this.profiler.recordSystem(
+            system.name,
+            getSystemPhase(system),
+            performance.now() - start
+          );
+        }
       }
+
+      const phase = getSystemPhase(system);
+      const next = schedule[index + 1];
+      if (!next || getSystemPhase(next) !== phase) {
+        this.applyCommands(phase);
+      }
+    });
+
+    // Deliver events emitted during this frame
+    this.world.events.flush();
+
+    if (profiling) {
+      this.profiler.recordFrame(performance.now() - frameStart);
     }
   }
 
+  /**
+   * Apply queued structural changes (a sync point)
+   */
+  applyCommands(phase: SystemPhase | "external" = "external"): void {
+    this.world.commands.apply(this, { frame: this.frame, phase });
+  }
+
   /**
    * Shutdown all systems
    */
@@ -173,39 +702,24 @@ export class ECS {
     this.isRunning = false;
 
     // Cleanup all systems
-    for (const system of this.systems) {
+    for (const system of this.getSchedule()) {
       if (system.cleanup) {
         system.cleanup(this.world);
       }
     }
+
+    // Undelivered events and commands belong to the session that just ended
+    this.world.events.clear();
+    this.world.commands.clear();
   }
 
   /**
-   * Sort systems by dependencies
+   * Get the resolved system order, resolving it again if systems changed
    */
-  private sortSystems(): void {
-    // Create a map of system names to their indices
-    const systemIndices = new Map<string, number>();
-    this.systems.forEach((system, index) => {
-      systemIndices.set(system.name, index);
-    });
-
-    // Sort systems based on dependencies
-    this.systems.sort((a, b) => {
-      // If b depends on a, a should come first
-      if (b.dependencies?.includes(a.name)) {
-        return -1;
-      }
-
-      // If a depends on b, b should come first
-      if (a.dependencies?.includes(b.name)) {
-        return 1;
-      }
-
-      // Otherwise, preserve original order
-      return (
-        (systemIndices.get(a.name) || 0) - (systemIndices.get(b.name) || 0)
-      );
-    });
+  private getSchedule(): System[] {
+    if (!this.schedule) {
+      this.schedule = resolveSystemOrder(this.systems);
+    }
+    return this.schedule;
   }
 }
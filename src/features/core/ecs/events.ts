@@ -0,0 +1,157 @@
+import { Vec3 } from "./types";
+
+/**
+ * Map of every game event name to its payload type
+ *
+ * Features can add their own events through declaration merging:
+ * `declare module ".../ecs/events" { interface GameEvents { ... } }`
+ */
+export interface GameEvents {
+  EntityDamaged: {
+    entityId: string;
+    amount: number;
+    sourceId?: string;
+    remainingHealth?: number;
+  };
+  EntityKilled: {
+    entityId: string;
+    killerId?: string;
+  };
+  ProjectileFired: {
+    sourceId: string;
+    projectileId?: string;
+    position: Vec3;
+    direction: Vec3;
+  };
+  ItemCollected: {
+    itemId: string;
+    itemType: string;
+    collectorId: string;
+  };
+  DoorOpened: {
+    doorId: string;
+    openedBy?: string;
+  };
+  Explosion: {
+    position: Vec3;
+    radius: number;
+    damage: number;
+    sourceId?: string;
+    // Targets that took damage or were pushed
+    hitCount: number;
+  };
+}
+
+export type GameEventType = keyof GameEvents;
+
+export type EventHandler<T> = (payload: T) => void;
+
+type QueuedEvent<Events> = {
+  [K in keyof Events]: { type: K; payload: Events[K] };
+}[keyof Events];
+
+/**
+ * Typed publish/subscribe bus with queued delivery
+ *
+ * `emit` only queues an event; handlers run when `flush` is called, which
+ * the ECS does once at the end of every update. Events emitted by handlers
+ * during a flush are delivered on the next flush, so a chain of reactions
+ * can never starve a frame.
+ */
+export class EventBus<Events extends object = GameEvents> {
+  private handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+  private queue: QueuedEvent<Events>[] = [];
+
+  /**
+   * Subscribe to an event type, returns an unsubscribe function
+   */
+  on<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event type only
+   */
+  once<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): () => void {
+    const unsubscribe = this.on(type, (payload) => {
+      unsubscribe();
+      handler(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Remove a handler
+   */
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * Queue an event for delivery on the next flush
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.queue.push({ type, payload } as QueuedEvent<Events>);
+  }
+
+  /**
+   * Deliver an event to its handlers right away, bypassing the queue
+   */
+  dispatch<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    // Copy so handlers can unsubscribe while being called
+    for (const handler of [...handlers] as EventHandler<Events[K]>[]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[ECS] Error in "${String(type)}" event handler:`, error);
+      }
+    }
+  }
+
+  /**
+   * Deliver every event queued before this call
+   */
+  flush(): void {
+    if (this.queue.length === 0) return;
+
+    const events = this.queue;
+    this.queue = [];
+
+    for (const event of events) {
+      this.dispatch(event.type, event.payload);
+    }
+  }
+
+  /**
+   * Number of events waiting for the next flush
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Drop all queued events and, optionally, all handlers
+   */
+  clear(includeHandlers: boolean = false): void {
+    this.queue = [];
+    if (includeHandlers) {
+      this.handlers.clear();
+    }
+  }
+}
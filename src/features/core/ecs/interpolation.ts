@@ -0,0 +1,108 @@
+import { Euler, Quaternion, Vector3 } from "three";
+import { Entity, Vec3 } from "./types";
+
+/**
+ * Transform blended between two simulation steps, ready for a three.js object
+ */
+export interface InterpolatedTransform {
+  position: Vector3;
+  quaternion: Quaternion;
+  scale: Vector3;
+}
+
+interface TransformSample {
+  position: Vec3;
+  rotation: Vec3;
+  scale: Vec3;
+  frame: number; // ECS frame the sample was taken at
+}
+
+// Scratch objects reused between calls
+const euler = new Euler();
+const from = new Quaternion();
+const to = new Quaternion();
+const current = new Vector3();
+
+/**
+ * Keeps the transform each entity had before the latest update
+ *
+ * Together with the current transform this lets renderers draw entities at
+ * any point between two fixed steps instead of snapping to the last one.
+ */
+export class TransformHistory {
+  private samples = new Map<string, TransformSample>();
+
+  /**
+   * Record the current transforms as the "previous" state
+   *
+   * Call before every update. Entities that are gone are forgotten.
+   */
+  capture(entities: readonly Entity[], frame: number): void {
+    for (const entity of entities) {
+      const transform = entity.transform;
+      if (!transform) continue;
+
+      const sample = this.samples.get(entity.id);
+      if (sample) {
+        copyVec3(transform.position, sample.position);
+        copyVec3(transform.rotation, sample.rotation);
+        copyVec3(transform.scale, sample.scale);
+        sample.frame = frame;
+      } else {
+        this.samples.set(entity.id, {
+          position: [...transform.position],
+          rotation: [...transform.rotation],
+          scale: [...transform.scale],
+          frame,
+        });
+      }
+    }
+
+    for (const [id, sample] of this.samples) {
+      if (sample.frame !== frame) this.samples.delete(id);
+    }
+  }
+
+  /**
+   * Blend an entity's previous and current transform
+   *
+   * `alpha` is the loop's interpolation factor; entities without a previous
+   * sample (e.g. spawned this step) are drawn at their current transform.
+   */
+  interpolate(
+    entity: Entity,
+    alpha: number,
+    out: InterpolatedTransform
+  ): InterpolatedTransform {
+    const transform = entity.transform;
+    if (!transform) return out;
+
+    const previous = this.samples.get(entity.id) ?? transform;
+
+    out.position
+      .fromArray(previous.position)
+      .lerp(current.fromArray(transform.position), alpha);
+    out.scale
+      .fromArray(previous.scale)
+      .lerp(current.fromArray(transform.scale), alpha);
+
+    from.setFromEuler(euler.fromArray(previous.rotation));
+    to.setFromEuler(euler.fromArray(transform.rotation));
+    out.quaternion.slerpQuaternions(from, to, alpha);
+
+    return out;
+  }
+
+  /**
+   * Forget all samples, e.g. after teleporting everything by restoring a snapshot
+   */
+  clear(): void {
+    this.samples.clear();
+  }
+}
+
+function copyVec3(source: Vec3, target: Vec3): void {
+  target[0] = source[0];
+  target[1] = source[1];
+  target[2] = source[2];
+}
@@ -0,0 +1,109 @@
+import { definePrefabs } from "./prefabs";
+
+/**
+ * Built-in prefabs
+ *
+ * Base prefabs (`character`, `staticProp`, `item`) hold shared components;
+ * concrete prefabs extend them and override only what differs. Stats mirror
+ * the values used by the player controller, enemy and collectible components.
+ */
+definePrefabs([
+  // Bases
+  {
+    name: "character",
+    components: {
+      transform: {},
+      // Position is at the feet
+      physics: {
+        mass: 1,
+        collider: "capsule",
+        static: false,
+        size: [1, 2, 1],
+        offset: [0, 1, 0],
+      },
+    },
+  },
+  {
+    name: "staticProp",
+    components: {
+      transform: {},
+      physics: { mass: 0, collider: "box", static: true },
+    },
+  },
+  {
+    name: "item",
+    components: {
+      transform: { scale: [0.5, 0.5, 0.5] },
+    },
+  },
+
+  // Player
+  {
+    name: "player",
+    extends: "character",
+    components: {
+      transform: { position: [0, 1, 0] },
+      physics: { collider: "box", size: [1, 2, 1], offset: [0, 1, 0] },
+      player: {
+        health: 100,
+        speed: 5,
+        jumpForce: 5,
+        isJumping: false,
+        weapons: [],
+        currentWeapon: "",
+      },
+    },
+  },
+
+  // Enemies
+  {
+    name: "grunt",
+    extends: "character",
+    components: {
+      enemy: {
+        type: "grunt",
+        health: 50,
+        damage: 10,
+        speed: 2.5,
+        state: "idle",
+        detectionRadius: 15,
+        attackRadius: 10,
+      },
+    },
+  },
+
+  // Weapons
+  {
+    name: "pistol",
+    components: {
+      transform: {},
+      weapon: {
+        name: "pistol",
+        damage: 15,
+        fireRate: 0.25,
+        ammo: 12,
+        maxAmmo: 12,
+        reloadTime: 1.2,
+        projectileType: "hitscan",
+      },
+    },
+  },
+
+  // Pickups
+  {
+    name: "healthPack",
+    extends: "item",
+    components: {
+      pickup: { type: "health", amount: 25, respawnTime: 30 },
+    },
+  },
+
+  // Props
+  {
+    name: "crate",
+    extends: "staticProp",
+    components: {
+      transform: { scale: [1, 1, 1] },
+    },
+  },
+]);
@@ -0,0 +1,133 @@
+import { createComponent } from "./components";
+import { ComponentName, ComponentTypes, EntityComponents } from "./types";
+
+// Partial component data, nested objects are merged rather than replaced
+export type ComponentOverrides = {
+  [K in ComponentName]?: Partial<ComponentTypes[K]>;
+};
+
+/**
+ * Named entity template
+ */
+export interface PrefabDefinition {
+  name: string;
+  // Parent prefab whose components are inherited and then overridden
+  extends?: string;
+  components: ComponentOverrides;
+}
+
+// All registered prefabs, keyed by name
+const registry = new Map<string, PrefabDefinition>();
+
+/**
+ * Register a prefab
+ */
+export function definePrefab(definition: PrefabDefinition): PrefabDefinition {
+  if (registry.has(definition.name)) {
+    throw new Error(`[ECS] Prefab "${definition.name}" is already defined`);
+  }
+
+  registry.set(definition.name, definition);
+  return definition;
+}
+
+/**
+ * Register several prefabs at once, e.g. from a parsed JSON file
+ */
+export function definePrefabs(definitions: PrefabDefinition[]): void {
+  definitions.forEach(definePrefab);
+}
+
+/**
+ * Get a prefab definition by name
+ */
+export function getPrefab(name: string): PrefabDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Get the names of all registered prefabs
+ */
+export function getPrefabNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Build the full component set for a prefab
+ *
+ * Walks the `extends` chain from the root down, merging each level's
+ * components, then the overrides, and finally fills in registered
+ * component defaults for anything left unspecified.
+ */
+export function resolvePrefab(
+  name: string,
+  overrides: ComponentOverrides = {}
+): EntityComponents {
+  // Collect the inheritance chain, child first
+  const chain: PrefabDefinition[] = [];
+  const seen = new Set<string>();
+  let current: string | undefined = name;
+
+  while (current) {
+    if (seen.has(current)) {
+      throw new Error(
+        `[ECS] Prefab "${name}" has a cyclic inheritance chain: ${[...seen, current].join(" -> ")}`
+      );
+    }
+    seen.add(current);
+
+    const definition = registry.get(current);
+    if (!definition) {
+      throw new Error(
+        current === name
+          ? `[ECS] Unknown prefab "${name}". Known prefabs: ${getPrefabNames().join(", ")}`
+          : `[ECS] Prefab "${chain[chain.length - 1].name}" extends unknown prefab "${current}"`
+      );
+    }
+
+    chain.push(definition);
+    current = definition.extends;
+  }
+
+  let merged: Record<string, unknown> = {};
+  for (const definition of chain.reverse()) {
+    merged = mergeDeep(merged, definition.components);
+  }
+  merged = mergeDeep(merged, overrides);
+
+  const components: Record<string, unknown> = {};
+  for (const [component, data] of Object.entries(merged)) {
+    components[component] = createComponent(
+      component as ComponentName,
+      structuredClone(data) as Partial<ComponentTypes[ComponentName]>
+    );
+  }
+
+  return components as EntityComponents;
+}
+
+/**
+ * Merge plain objects recursively; arrays and other values are replaced
+ */
+function mergeDeep(
+  target: Record<string, unknown>,
+  source: object
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value)
+        ? mergeDeep(existing, value)
+        : value;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,129 @@
+import { SystemPhase } from "./types";
+
+export interface SystemTiming {
+  name: string;
+  phase: SystemPhase;
+  lastMs: number; // Cost in the most recent frame
+  averageMs: number; // Rolling average over the sample window
+  maxMs: number; // Worst frame in the sample window
+}
+
+export interface FrameTiming {
+  lastMs: number;
+  averageMs: number;
+  maxMs: number;
+  frames: number; // Frames recorded since the profiler was created or reset
+}
+
+/**
+ * Fixed-size ring of samples with a running sum
+ */
+class SampleWindow {
+  private samples: Float64Array;
+  private index: number = 0;
+  private count: number = 0;
+  private sum: number = 0;
+  last: number = 0;
+
+  constructor(size: number) {
+    this.samples = new Float64Array(size);
+  }
+
+  push(value: number): void {
+    if (this.count === this.samples.length) {
+      this.sum -= this.samples[this.index];
+    } else {
+      this.count++;
+    }
+
+    this.samples[this.index] = value;
+    this.sum += value;
+    this.last = value;
+    this.index = (this.index + 1) % this.samples.length;
+  }
+
+  get average(): number {
+    return this.count === 0 ? 0 : this.sum / this.count;
+  }
+
+  get max(): number {
+    let max = 0;
+    for (let i = 0; i < this.count; i++) {
+      max = Math.max(max, this.samples[i]);
+    }
+    return max;
+  }
+}
+
+/**
+ * Collects per-system and per-frame update timings
+ *
+ * Each system keeps a rolling window of its most recent frame costs, so
+ * averages react to spikes without being dominated by a single frame.
+ */
+export class SystemProfiler {
+  private systems = new Map<string, { phase: SystemPhase; window: SampleWindow }>();
+  private frame: SampleWindow;
+  private frames: number = 0;
+  private windowSize: number;
+
+  constructor(windowSize: number = 120) {
+    this.windowSize = windowSize;
+    this.frame = new SampleWindow(windowSize);
+  }
+
+  /**
+   * Record how long a system's update took this frame
+   */
+  recordSystem(name: string, phase: SystemPhase, ms: number): void {
+    let entry = this.systems.get(name);
+    if (!entry) {
+      entry = { phase, window: new SampleWindow(this.windowSize) };
+      this.systems.set(name, entry);
+    }
+    entry.phase = phase;
+    entry.window.push(ms);
+  }
+
+  /**
+   * Record how long the whole update took this frame
+   */
+  recordFrame(ms: number): void {
+    this.frame.push(ms);
+    this.frames++;
+  }
+
+  /**
+   * Timings for every system that has run, in recording order
+   */
+  getSystemTimings(): SystemTiming[] {
+    return [...this.systems].map(([name, { phase, window }]) => ({
+      name,
+      phase,
+      lastMs: window.last,
+      averageMs: window.average,
+      maxMs: window.max,
+    }));
+  }
+
+  /**
+   * Timing of the update as a whole
+   */
+  getFrameTiming(): FrameTiming {
+    return {
+      lastMs: this.frame.last,
+      averageMs: this.frame.average,
+      maxMs: this.frame.max,
+      frames: this.frames,
+    };
+  }
+
+  /**
+   * Forget all recorded samples
+   */
+  reset(): void {
+    this.systems.clear();
+    this.frame = new SampleWindow(this.windowSize);
+    this.frames = 0;
+  }
+}
@@ -0,0 +1,216 @@
+// Well-known streams. Any name works, these just keep call sites consistent.
+export type RandomStreamName =
+  | "spawning" // Enemy types and spawn positions
+  | "loot" // Drops and pickups
+  | "ai" // Enemy decisions
+  | "spread" // Weapon spread and recoil
+  | "level" // Procedural level layout
+  | "ids" // Entity and gameplay object ids
+  | (string & {});
+
+/**
+ * Serializable state of a RandomService, stored in world snapshots
+ */
+export interface RandomState {
+  seed: number;
+  streams: Record<string, [number, number, number, number]>;
+}
+
+const ID_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_-";
+
+/**
+ * A single deterministic sequence of random numbers (sfc32)
+ */
+export class RandomStream {
+  readonly name: string;
+  private state: [number, number, number, number];
+  private service: RandomService;
+
+  constructor(
+    service: RandomService,
+    name: string,
+    state: [number, number, number, number]
+  ) {
+    this.service = service;
+    this.name = name;
+    this.state = state;
+  }
+
+  /**
+   * Float in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    let [a, b, c, d] = this.state;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    this.state = [a, b, c, d];
+    return (t >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.float(min, max));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error(`[Random] Cannot pick from an empty array (${this.name})`);
+    }
+    return items[this.int(0, items.length)];
+  }
+
+  /**
+   * Random url-safe id, a deterministic stand-in for nanoid()
+   */
+  id(length: number = 21): string {
+    let id = "";
+    for (let i = 0; i < length; i++) {
+      id += ID_ALPHABET[this.int(0, ID_ALPHABET.length)];
+    }
+    return id;
+  }
+
+  /**
+   * Child stream, e.g. `random.stream("ai").split(enemyId)` for per-enemy decisions
+   *
+   * Children are independent of how much the parent has been used, and are
+   * saved with the service like any other stream.
+   */
+  split(name: string): RandomStream {
+    return this.service.stream(`${this.name}/${name}`);
+  }
+
+  getState(): [number, number, number, number] {
+    return [...this.state];
+  }
+
+  setState(state: [number, number, number, number]): void {
+    this.state = [...state];
+  }
+}
+
+/**
+ * Seeded source of all gameplay randomness
+ *
+ * Each named stream is derived from the seed and its name only, so drawing
+ * more numbers in one stream (e.g. an extra spread roll) never shifts another
+ * (e.g. spawning). Same seed and same inputs give the same match.
+ */
+export class RandomService {
+  private seed: number;
+  private streams = new Map<string, RandomStream>();
+
+  constructor(seed: number = RandomService.randomSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Non-deterministic seed for when none is given
+   */
+  static randomSeed(): number {
+    return (Math.random() * 4294967296) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get a named stream, creating it from the seed on first use
+   */
+  stream(name: RandomStreamName): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(this, name, seedState(this.seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Restart every stream from a new seed
+   *
+   * Existing stream objects stay valid and continue from the new seed.
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    for (const stream of this.streams.values()) {
+      stream.setState(seedState(this.seed, stream.name));
+    }
+  }
+
+  getState(): RandomState {
+    const streams: RandomState["streams"] = {};
+    for (const [name, stream] of this.streams) {
+      streams[name] = stream.getState();
+    }
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Continue from a saved state. Streams not in the state restart from the seed.
+   */
+  setState(state: RandomState): void {
+    this.reseed(state.seed);
+    for (const [name, streamState] of Object.entries(state.streams)) {
+      if (!Array.isArray(streamState) || streamState.length !== 4) {
+        throw new Error(`[Random] Invalid state for stream "${name}"`);
+      }
+      this.stream(name).setState(streamState);
+    }
+  }
+}
+
+/**
+ * Initial sfc32 state for a stream, mixed from the seed and the stream name
+ */
+function seedState(
+  seed: number,
+  name: string
+): [number, number, number, number] {
+  // FNV-1a hash of the name
+  let hash = 2166136261;
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 16777619);
+  }
+
+  // splitmix32 to spread the bits over the four state words
+  let x = (seed ^ hash) >>> 0;
+  const next = () => {
+    x = (x + 0x9e3779b9) | 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+
+  return [next(), next(), next(), next()];
+}
+
+// Shared service for gameplay code that lives outside the ECS (React
+// components, stores). ECS instances use it unless given their own.
+export const gameRandom = new RandomService();
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { resolveSystemOrder } from "./scheduler";
+import { System } from "./types";
+
+// A system with nothing but a name and its ordering constraints
+function system(name: string, options: Omit<System, "name"> = {}): System {
+  return { name, ...options };
+}
+
+const names = (systems: readonly System[]) => systems.map((s) => s.name);
+
+describe("resolveSystemOrder", () => {
+  it("runs phases in order, keeping registration order inside each", () => {
+    const order = resolveSystemOrder([
+      system("render", { phase: "renderSync" }),
+      system("ai"),
+      system("physics", { phase: "physics" }),
+      system("input", { phase: "input" }),
+      system("weapons"),
+    ]);
+
+    expect(names(order)).toEqual(["input", "ai", "weapons", "physics", "render"]);
+  });
+
+  it("sorts by after, dependencies and before within a phase", () => {
+    const order = resolveSystemOrder([
+      system("damage", { after: ["weapons"] }),
+      system("score", { dependencies: ["damage"] }),
+      system("weapons"),
+      system("spawner", { before: ["weapons"] }),
+    ]);
+
+    expect(names(order)).toEqual(["spawner", "weapons", "damage", "score"]);
+  });
+
+  it("allows constraints on earlier phases without reordering anything", () => {
+    const order = resolveSystemOrder([
+      system("sync", { phase: "renderSync", after: ["input"] }),
+      system("input", { phase: "input", before: ["sync"] }),
+    ]);
+
+    expect(names(order)).toEqual(["input", "sync"]);
+  });
+
+  it("refuses constraints that point across phases the wrong way", () => {
+    expect(() =>
+      resolveSystemOrder([system("input", { phase: "input", after: ["ai"] }), system("ai")])
+    ).toThrow('[ECS] System "input" (input) cannot run after "ai" (simulation), which is in a later phase');
+
+    expect(() =>
+      resolveSystemOrder([system("ai", { before: ["input"] }), system("input", { phase: "input" })])
+    ).toThrow('[ECS] System "ai" (simulation) cannot run before "input" (input), which is in an earlier phase');
+  });
+
+  it("refuses unknown and duplicate systems", () => {
+    expect(() => resolveSystemOrder([system("ai", { after: ["pathing"] })])).toThrow(
+      '[ECS] System "ai" must run after "pathing", but no system with that name is registered. Registered systems: ai'
+    );
+    expect(() => resolveSystemOrder([system("ai"), system("ai")])).toThrow(
+      '[ECS] System "ai" is registered twice'
+    );
+  });
+
+  describe("cycles", () => {
+    it("names the systems in the cycle", () => {
+      expect(() =>
+        resolveSystemOrder([
+          system("a", { after: ["c"] }),
+          system("b", { after: ["a"] }),
+          system("c", { after: ["b"] }),
+        ])
+      ).toThrow('[ECS] Cyclic system dependencies in phase "simulation" (each must run before the next): a -> b -> c -> a');
+    });
+
+    it("leaves out systems that only depend on the cycle", () => {
+      expect(() =>
+        resolveSystemOrder([
+          system("ok"),
+          system("after", { after: ["b"] }),
+          system("a", { before: ["b"] }),
+          system("b", { before: ["a"] }),
+        ])
+      ).toThrow(/: a -> b -> a$/);
+    });
+
+    it("catches a system that waits on itself", () => {
+      expect(() => resolveSystemOrder([system("a", { after: ["a"] })])).toThrow(/: a -> a$/);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { System, SystemPhase } from "./types";
+
+/**
+ * Phases in execution order. Every system runs in exactly one phase
+ * (`simulation` unless it says otherwise).
+ */
+export const SYSTEM_PHASES: readonly SystemPhase[] = [
+  "input",
+  "simulation",
+  "physics",
+  "postPhysics",
+  "renderSync",
+];
+
+export const DEFAULT_PHASE: SystemPhase = "simulation";
+
+/**
+ * Get the phase a system runs in
+ */
+export function getSystemPhase(system: System): SystemPhase {
+  return system.phase ?? DEFAULT_PHASE;
+}
+
+/**
+ * Resolve the execution order of a set of systems
+ *
+ * Systems are grouped by phase, then ordered inside each phase by their
+ * `after`/`dependencies` and `before` constraints using a topological sort.
+ * Ties keep registration order. Throws when a constraint names a system
+ * that isn't registered, points at a later phase, or forms a cycle.
+ */
+export function resolveSystemOrder(systems: readonly System[]): System[] {
+  const byName = new Map<string, System>();
+  for (const system of systems) {
+    if (byName.has(system.name)) {
+      throw new Error(`[ECS] System "${system.name}" is registered twice`);
+    }
+    byName.set(system.name, system);
+  }
+
+  const phaseIndex = (system: System) =>
+    SYSTEM_PHASES.indexOf(getSystemPhase(system));
+
+  // Edges point from a system to the systems that must run after it
+  const edges = new Map<string, Set<string>>();
+  for (const system of systems) {
+    edges.set(system.name, new Set());
+  }
+
+  const addEdge = (from: System, to: System) => {
+    edges.get(from.name)!.add(to.name);
+  };
+
+  for (const system of systems) {
+    const after = [...(system.after ?? []), ...(system.dependencies ?? [])];
+
+    for (const name of after) {
+      const dependency = byName.get(name);
+      if (!dependency) {
+        throw new Error(
+          `[ECS] System "${system.name}" must run after "${name}", but no system with that name is registered. ` +
+            `Registered systems: ${[...byName.keys()].join(", ")}`
+        );
+      }
+
+      if (phaseIndex(dependency) > phaseIndex(system)) {
+        throw new Error(
+          `[ECS] System "${system.name}" (${getSystemPhase(system)}) cannot run after "${name}" (${getSystemPhase(dependency)}), which is in a later phase`
+        );
+      }
+
+      if (phaseIndex(dependency) === phaseIndex(system)) {
+        addEdge(dependency, system);
+      }
+    }
+
+    for (const name of system.before ?? []) {
+      const dependent = byName.get(name);
+      if (!dependent) {
+        throw new Error(
+          `[ECS] System "${system.name}" must run before "${name}", but no system with that name is registered. ` +
+            `Registered systems: ${[...byName.keys()].join(", ")}`
+        );
+      }
+
+      if (phaseIndex(dependent) < phaseIndex(system)) {
+        throw new Error(
+          `[ECS] System "${system.name}" (${getSystemPhase(system)}) cannot run before "${name}" (${getSystemPhase(dependent)}), which is in an earlier phase`
+        );
+      }
+
+      if (phaseIndex(dependent) === phaseIndex(system)) {
+        addEdge(system, dependent);
+      }
+    }
+  }
+
+  const order: System[] = [];
+
+  for (const phase of SYSTEM_PHASES) {
+    const phaseSystems = systems.filter((s) => getSystemPhase(s) === phase);
+
+    // Count incoming edges for Kahn's algorithm
+    const inDegree = new Map<string, number>();
+    for (const system of phaseSystems) {
+      inDegree.set(system.name, 0);
+    }
+    for (const system of phaseSystems) {
+      for (const next of edges.get(system.name)!) {
+        inDegree.set(next, inDegree.get(next)! + 1);
+      }
+    }
+
+    const remaining = [...phaseSystems];
+    while (remaining.length > 0) {
+      // Pick the earliest registered system with no pending dependencies
+      const index = remaining.findIndex((s) => inDegree.get(s.name) === 0);
+      if (index === -1) {
+        throw new Error(
+          `[ECS] Cyclic system dependencies in phase "${phase}" (each must run before the next): ${findCycle(remaining, edges).join(" -> ")}`
+        );
+      }
+
+      const [system] = remaining.splice(index, 1);
+      order.push(system);
+
+      for (const next of edges.get(system.name)!) {
+        inDegree.set(next, inDegree.get(next)! - 1);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Find one dependency cycle among systems that couldn't be ordered
+ */
+function findCycle(
+  systems: readonly System[],
+  edges: Map<string, Set<string>>
+): string[] {
+  const candidates = new Set(systems.map((s) => s.name));
+  const visiting: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string): string[] | null => {
+    const start = visiting.indexOf(name);
+    if (start !== -1) {
+      return [...visiting.slice(start), name];
+    }
+    if (visited.has(name)) return null;
+
+    visiting.push(name);
+    for (const next of edges.get(name) ?? []) {
+      if (!candidates.has(next)) continue;
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    visited.add(name);
+    return null;
+  };
+
+  for (const name of candidates) {
+    const cycle = visit(name);
+    if (cycle) return cycle;
+  }
+
+  return [...candidates];
+}
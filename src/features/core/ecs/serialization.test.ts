@@ -0,0 +1,187 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createComponent, getComponentNames } from "./components";
+import { ECS } from "./ecs";
+import { RandomService } from "./random";
+import {
+  createSnapshot,
+  migrateSnapshot,
+  registerSnapshotMigration,
+  remapSnapshotIds,
+  SNAPSHOT_VERSION,
+} from "./serialization";
+import { EntityComponents } from "./types";
+
+// Every registered component at its defaults, with entity references pointing at `other`
+function everyComponent(other: string): EntityComponents {
+  const components: Record<string, unknown> = {};
+  for (const name of getComponentNames()) {
+    components[name] = createComponent(name);
+  }
+
+  return {
+    ...components,
+    hierarchy: createComponent("hierarchy", { parent: other }),
+    enemy: createComponent("enemy", { target: other }),
+    projectile: createComponent("projectile", { source: other }),
+  } as EntityComponents;
+}
+
+describe("serialization", () => {
+  let ecs: ECS;
+
+  beforeEach(() => {
+    ecs = new ECS({ random: new RandomService(7), validateComponents: true });
+  });
+
+  it("round-trips every registered component through JSON", () => {
+    const target = ecs.createEntity({ transform: createComponent("transform") });
+    const entity = ecs.createEntity(everyComponent(target.id));
+    const blob = JSON.parse(JSON.stringify(ecs.snapshot()));
+
+    const restored = new ECS({ random: new RandomService(1), validateComponents: true });
+    restored.restore(blob, { remapIds: false });
+
+    expect(restored.getEntity(entity.id)).toEqual(entity);
+    expect(restored.getEntity(target.id)).toEqual(target);
+  });
+
+  it("refuses values JSON can't hold", () => {
+    const entity = ecs.createEntity({ transform: createComponent("transform") });
+    entity.transform!.position[0] = NaN;
+
+    expect(() => createSnapshot([entity])).toThrow(
+      "[ECS] Cannot serialize non-finite number at entity.transform.position[0]"
+    );
+  });
+
+  describe("id remapping", () => {
+    let counter: number;
+    const createId = () => `new-${++counter}`;
+
+    beforeEach(() => {
+      counter = 0;
+    });
+
+    it("gives every entity a new id and rewrites references to match", () => {
+      const target = ecs.createEntity({ transform: createComponent("transform") });
+      const entity = ecs.createEntity(everyComponent(target.id));
+
+      const { snapshot, idMap } = remapSnapshotIds(createSnapshot([target, entity]), createId);
+
+      expect([...idMap]).toEqual([
+        [target.id, "new-1"],
+        [entity.id, "new-2"],
+      ]);
+      const [remappedTarget, remapped] = snapshot.entities;
+      expect(remappedTarget.id).toBe("new-1");
+      expect(remapped.id).toBe("new-2");
+      expect(remapped.components.hierarchy?.parent).toBe("new-1");
+      expect(remapped.components.enemy?.target).toBe("new-1");
+      expect(remapped.components.projectile?.source).toBe("new-1");
+    });
+
+    it("leaves references to entities outside the snapshot alone", () => {
+      const entity = ecs.createEntity(everyComponent("elsewhere"));
+
+      const { snapshot } = remapSnapshotIds(createSnapshot([entity]), createId);
+
+      expect(snapshot.entities[0].components.hierarchy?.parent).toBe("elsewhere");
+    });
+
+    it("only rewrites declared reference fields", () => {
+      const target = ecs.createEntity({ transform: createComponent("transform") });
+      const entity = ecs.createEntity({
+        pickup: createComponent("pickup"),
+        enemy: createComponent("enemy", { type: target.id, target: target.id }),
+      });
+
+      const { snapshot } = remapSnapshotIds(createSnapshot([target, entity]), createId);
+
+      expect(snapshot.entities[1].components.enemy).toMatchObject({
+        type: target.id,
+        target: "new-1",
+      });
+    });
+
+    it("is what restore does by default", () => {
+      const target = ecs.createEntity({ transform: createComponent("transform") });
+      const entity = ecs.createEntity({ hierarchy: { parent: target.id } });
+
+      const idMap = ecs.restore(ecs.snapshot());
+
+      const newParent = idMap.get(target.id)!;
+      expect(newParent).not.toBe(target.id);
+      expect(ecs.getEntity(idMap.get(entity.id)!)?.hierarchy?.parent).toBe(newParent);
+      expect(ecs.getEntity(target.id)).toBeUndefined();
+    });
+  });
+
+  describe("migrations", () => {
+    // Version 1 stored a flat score per entity, 2 grouped it under stats,
+    // and 3 moved it into the player component
+    beforeAll(() => {
+      registerSnapshotMigration(1, (snapshot) => ({
+        ...snapshot,
+        version: 2,
+        entities: (snapshot.entities as { id: string; score: number }[]).map(
+          ({ id, score }) => ({ id, stats: { score } })
+        ),
+      }));
+      registerSnapshotMigration(2, (snapshot) => ({
+        ...snapshot,
+        version: 3,
+        entities: (snapshot.entities as { id: string; stats: { score: number } }[]).map(
+          ({ id, stats }) => ({ id, components: { player: { score: stats.score } } })
+        ),
+      }));
+    });
+
+    const V1 = { version: 1, entities: [{ id: "a", score: 12 }] };
+
+    it("runs every step from the saved version up to the target", () => {
+      const snapshot = migrateSnapshot(V1, 3);
+
+      expect(snapshot).toEqual({
+        version: 3,
+        entities: [{ id: "a", components: { player: { score: 12 } } }],
+      });
+    });
+
+    it("starts from the saved version, and leaves the input untouched", () => {
+      const v2 = { version: 2, entities: [{ id: "a", stats: { score: 3 } }] };
+
+      expect(migrateSnapshot(v2, 3).entities[0].components).toEqual({ player: { score: 3 } });
+      expect(v2.entities[0]).toEqual({ id: "a", stats: { score: 3 } });
+    });
+
+    it("fails on gaps, newer versions and duplicate registrations", () => {
+      expect(() => migrateSnapshot(V1, 4)).toThrow(
+        "[ECS] No snapshot migration registered from version 3"
+      );
+      expect(() => migrateSnapshot({ version: 4, entities: [] }, 3)).toThrow(
+        "[ECS] Snapshot version 4 is newer than the supported version 3"
+      );
+      expect(() => registerSnapshotMigration(1, (snapshot) => snapshot)).toThrow(
+        "[ECS] A snapshot migration from version 1 is already registered"
+      );
+    });
+
+    it("checks that each step moves up exactly one version", () => {
+      registerSnapshotMigration(10, (snapshot) => ({ ...snapshot, version: 12 }));
+
+      expect(() => migrateSnapshot({ version: 10, entities: [] }, 12)).toThrow(
+        "[ECS] Snapshot migration from version 10 produced version 12, expected 11"
+      );
+    });
+
+    it("rejects malformed snapshots", () => {
+      const current = (blob: object) => () =>
+        migrateSnapshot({ version: SNAPSHOT_VERSION, ...blob });
+
+      expect(() => migrateSnapshot(null)).toThrow("[ECS] Snapshot must be an object");
+      expect(() => migrateSnapshot({ version: 0 })).toThrow("[ECS] Snapshot has an invalid version: 0");
+      expect(current({})).toThrow("[ECS] Snapshot is missing its entities array");
+      expect(current({ entities: [{ id: 1 }] })).toThrow("[ECS] Snapshot contains a malformed entity");
+    });
+  });
+});
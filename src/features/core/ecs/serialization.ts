@@ -0,0 +1,193 @@
+import { getComponentDefinition } from "./components";
+import { RandomState } from "./random";
+import { ComponentName, Entity, EntityComponents } from "./types";
+
+// Current snapshot format version, bump it and register a migration on changes
+export const SNAPSHOT_VERSION = 1;
+
+export interface SerializedEntity {
+  id: string;
+  components: EntityComponents;
+}
+
+/**
+ * JSON-safe copy of every entity in a world
+ */
+export interface WorldSnapshot {
+  version: number;
+  entities: SerializedEntity[];
+  // RNG streams at the time of the snapshot, so a loaded save continues identically
+  random?: RandomState;
+}
+
+// Upgrades a snapshot from one version to the next
+export type SnapshotMigration = (
+  snapshot: { version: number } & Record<string, unknown>
+) => { version: number } & Record<string, unknown>;
+
+// Migrations keyed by the version they upgrade from
+const migrations = new Map<number, SnapshotMigration>();
+
+/**
+ * Register a migration that upgrades snapshots from `fromVersion` to `fromVersion + 1`
+ */
+export function registerSnapshotMigration(
+  fromVersion: number,
+  migration: SnapshotMigration
+): void {
+  if (migrations.has(fromVersion)) {
+    throw new Error(
+      `[ECS] A snapshot migration from version ${fromVersion} is already registered`
+    );
+  }
+  migrations.set(fromVersion, migration);
+}
+
+/**
+ * Serialize a list of entities
+ */
+export function createSnapshot(entities: readonly Entity[]): WorldSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    entities: entities.map((entity) => {
+      const { id, ...components } = entity;
+      return { id, components: toJSONSafe(components) as EntityComponents };
+    }),
+  };
+}
+
+/**
+ * Check a raw snapshot and upgrade it to the current version
+ *
+ * `targetVersion` only exists so the migration chain can be exercised
+ * before the format has more than one version.
+ */
+export function migrateSnapshot(
+  blob: unknown,
+  targetVersion: number = SNAPSHOT_VERSION
+): WorldSnapshot {
+  if (typeof blob !== "object" || blob === null) {
+    throw new Error("[ECS] Snapshot must be an object");
+  }
+
+  let snapshot = structuredClone(blob) as { version: number } & Record<
+    string,
+    unknown
+  >;
+
+  if (!Number.isInteger(snapshot.version) || snapshot.version < 1) {
+    throw new Error(`[ECS] Snapshot has an invalid version: ${snapshot.version}`);
+  }
+
+  if (snapshot.version > targetVersion) {
+    throw new Error(
+      `[ECS] Snapshot version ${snapshot.version} is newer than the supported version ${targetVersion}`
+    );
+  }
+
+  while (snapshot.version < targetVersion) {
+    const migration = migrations.get(snapshot.version);
+    if (!migration) {
+      throw new Error(
+        `[ECS] No snapshot migration registered from version ${snapshot.version}`
+      );
+    }
+
+    const from = snapshot.version;
+    snapshot = migration(snapshot);
+    if (snapshot.version !== from + 1) {
+      throw new Error(
+        `[ECS] Snapshot migration from version ${from} produced version ${snapshot.version}, expected ${from + 1}`
+      );
+    }
+  }
+
+  if (!Array.isArray(snapshot.entities)) {
+    throw new Error("[ECS] Snapshot is missing its entities array");
+  }
+
+  for (const entity of snapshot.entities as SerializedEntity[]) {
+    if (typeof entity?.id !== "string" || typeof entity.components !== "object") {
+      throw new Error("[ECS] Snapshot contains a malformed entity");
+    }
+  }
+
+  return snapshot as unknown as WorldSnapshot;
+}
+
+/**
+ * Give every entity in a snapshot a new id
+ *
+ * Entity references inside components (declared with `entityRefs` on the
+ * component definition) are rewritten to the new ids. References to
+ * entities that aren't part of the snapshot are left untouched.
+ */
+export function remapSnapshotIds(
+  snapshot: WorldSnapshot,
+  createId: () => string
+): { snapshot: WorldSnapshot; idMap: Map<string, string> } {
+  const idMap = new Map<string, string>();
+  for (const entity of snapshot.entities) {
+    idMap.set(entity.id, createId());
+  }
+
+  const remap = (value: unknown): unknown => {
+    if (typeof value === "string") return idMap.get(value) ?? value;
+    if (Array.isArray(value)) return value.map(remap);
+    return value;
+  };
+
+  const entities = snapshot.entities.map((entity) => {
+    const components = structuredClone(entity.components) as Record<
+      string,
+      Record<string, unknown>
+    >;
+
+    for (const [name, data] of Object.entries(components)) {
+      const refs = getComponentDefinition(name as ComponentName)?.entityRefs;
+      for (const field of refs ?? []) {
+        if (data[field] !== undefined) {
+          data[field] = remap(data[field]);
+        }
+      }
+    }
+
+    return {
+      id: idMap.get(entity.id)!,
+      components: components as EntityComponents,
+    };
+  });
+
+  return { snapshot: { ...snapshot, entities }, idMap };
+}
+
+/**
+ * Deep copy a value, throwing on anything JSON can't represent
+ */
+function toJSONSafe(value: unknown, path: string = "entity"): unknown {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`[ECS] Cannot serialize non-finite number at ${path}`);
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toJSONSafe(item, `${path}[${index}]`));
+  }
+
+  if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      result[key] = toJSONSafe(item, `${path}.${key}`);
+    }
+    return result;
+  }
+
+  throw new Error(`[ECS] Cannot serialize ${typeof value} at ${path}`);
+}
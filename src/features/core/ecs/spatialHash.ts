@@ -0,0 +1,66 @@
+import { Vec3 } from "./types";
+
+/**
+ * Uniform grid that buckets items by the cells their bounds overlap
+ *
+ * Finding what might touch a box only looks at the cells around it instead
+ * of every item, which keeps broadphase cost flat as levels grow. Items
+ * that span several cells are stored in each of them.
+ */
+export class SpatialHash<T> {
+  private cells = new Map<string, T[]>();
+
+  constructor(readonly cellSize: number = 4) {
+    if (!(cellSize > 0)) {
+      throw new Error(`[ECS] Spatial hash cell size must be > 0, got ${cellSize}`);
+    }
+  }
+
+  clear(): void {
+    this.cells.clear();
+  }
+
+  /**
+   * Add an item covering the box from `min` to `max`
+   */
+  insert(item: T, min: Vec3, max: Vec3): void {
+    this.forEachCell(min, max, (key) => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(item);
+      } else {
+        this.cells.set(key, [item]);
+      }
+    });
+  }
+
+  /**
+   * Items whose cells overlap the box from `min` to `max`, each once
+   *
+   * Sharing a cell doesn't mean the bounds overlap, callers still need to
+   * test the candidates.
+   */
+  query(min: Vec3, max: Vec3): T[] {
+    const found = new Set<T>();
+    this.forEachCell(min, max, (key) => {
+      for (const item of this.cells.get(key) ?? []) {
+        found.add(item);
+      }
+    });
+    return [...found];
+  }
+
+  private forEachCell(min: Vec3, max: Vec3, callback: (key: string) => void): void {
+    const size = this.cellSize;
+    const [x0, y0, z0] = min.map((n) => Math.floor(n / size));
+    const [x1, y1, z1] = max.map((n) => Math.floor(n / size));
+
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          callback(`${x},${y},${z}`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { System } from "../types";
+import { inputSystem } from "./inputSystem";
+import { physicsSystem } from "./physicsSystem";
+import { playerMovementSystem } from "./playerMovement";
+import { transformHierarchySystem } from "./transformHierarchy";
+
+// Systems the game registers on its ECS, headless runs use them by default
+export const GAME_SYSTEMS: readonly System[] = [
+  inputSystem,
+  playerMovementSystem,
+  physicsSystem,
+  transformHierarchySystem,
+];
@@ -1,16 +1,22 @@
 import { System } from "../types";
 import { Vector2 } from 'three';
+import { inputActions } from "../../input/actions";
+import { loadSavedBindings, persistBindings } from "../../input/bindingStorage";
+import { gamepadInput } from "../../input/gamepad";
 
 // Debugging enabled or disabled
 const DEBUG = true;
 
+// False when running headless (Node, workers), where input is scripted instead
+const hasDOM = typeof window !== "undefined" && typeof document !== "undefined";
+
 function log(...args: any[]) {
   if (DEBUG) {
     console.log('[Input System]', ...args);
   }
 }
 
-// Input state interface
+// Input state the ECS systems read, derived from the action map each change
 export interface InputState {
   // Movement input values (-1 to 1)
   movement: {
@@ -28,18 +34,27 @@ export interface InputState {
   };
   // Mouse state
   mouse: {
-    position: Vector2;
-    delta: Vector2;
-    buttons: {
-      left: boolean;
-      right: boolean;
-      middle: boolean;
-    };
+    delta: Vector2; // Pointer movement since the last input system update
   };
-  // Key states
-  keys: Map<string, boolean>;
 }
 
+/**
+ * Input held during a tick. Fields that are left out keep their previous value.
+ */
+export interface InputFrame {
+  forward?: number; // -1 (forward) to 1 (backward), matching inputState
+  right?: number; // -1 (left) to 1 (right)
+  jump?: boolean;
+  sprint?: boolean;
+  slide?: boolean;
+  shoot?: boolean;
+  reload?: boolean;
+  mouseDelta?: [number, number];
+}
+
+// Called every tick with the input the other systems are about to see
+export type InputTap = (state: InputState) => void;
+
 // Create default input state
 export const inputState: InputState = {
   movement: {
@@ -55,35 +70,16 @@ export const inputState: InputState = {
     reload: false,
   },
   mouse: {
-    position: new Vector2(),
     delta: new Vector2(),
-    buttons: {
-      left: false,
-      right: false,
-      middle: false,
-    },
   },
-  keys: new Map<string, boolean>(),
 };
 
 // Initialize input system
 let initialized = false;
-
-// Key mapping for movement
-const keyMap = {
-  KeyW: 'forward',
-  KeyS: 'backward',
-  KeyA: 'left',
-  KeyD: 'right',
-  ArrowUp: 'forward',
-  ArrowDown: 'backward',
-  ArrowLeft: 'left',
-  ArrowRight: 'right',
-  Space: 'jump',
-  ShiftLeft: 'sprint',
-  ControlLeft: 'slide',
-  KeyR: 'reload',
-};
+let unsubscribers: (() => void)[] = [];
+const inputTaps = new Set<InputTap>();
+// While above zero, live input doesn't reach inputState (a replay owns it)
+let liveInputSuspensions = 0;
 
 // Initialize input system
 export function initInputSystem() {
@@ -91,16 +87,17 @@ export function initInputSystem() {
     return;
   }
 
-  // Set up listeners for keyboard events
-  document.addEventListener('keydown', handleKeyDown);
-  document.addEventListener('keyup', handleKeyUp);
-  
-  // Set up listeners for mouse events
-  document.addEventListener('mousemove', handleMouseMove);
-  document.addEventListener('mousedown', handleMouseDown);
-  document.addEventListener('mouseup', handleMouseUp);
-  document.addEventListener('contextmenu', (e) => e.preventDefault());
-  
+  // Player's own bindings from a previous session
+  loadSavedBindings();
+
+  // The action map and gamepad own the DOM listeners, we just mirror their state
+  inputActions.attach();
+  gamepadInput.attach();
+  unsubscribers = [
+    inputActions.onChange(syncInputState),
+    persistBindings(),
+  ];
+
   // Log initialization
   log('Input system initialized');
   initialized = true;
@@ -112,12 +109,11 @@ export function cleanupInputSystem() {
     return;
   }
 
-  document.removeEventListener('keydown', handleKeyDown);
-  document.removeEventListener('keyup', handleKeyUp);
-  document.removeEventListener('mousemove', handleMouseMove);
-  document.removeEventListener('mousedown', handleMouseDown);
-  document.removeEventListener('mouseup', handleMouseUp);
-  
+  unsubscribers.forEach((unsubscribe) => unsubscribe());
+  unsubscribers = [];
+  gamepadInput.detach();
+  inputActions.detach();
+
   // Reset input state
   resetInputState();
   
@@ -138,258 +134,111 @@ export function resetInputState() {
   inputState.buttons.reload = false;
   
   inputState.mouse.delta.set(0, 0);
-  inputState.mouse.buttons.left = false;
-  inputState.mouse.buttons.right = false;
-  inputState.mouse.buttons.middle = false;
-  
-  inputState.keys.clear();
   
   log('Input state reset');
 }
 
-// Handle key down events
-function handleKeyDown(event: KeyboardEvent) {
-  // Skip if we're typing in an input field
-  if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
-    return;
-  }
-
-  // Update key map
-  inputState.keys.set(event.code, true);
-  
-  // Debug 
-  if (DEBUG && Math.random() < 0.1) {
-    log(`Key Down: ${event.code}`);
-  }
-  
-  // Handle movement keys
-  updateMovementFromKeys();
-  
-  // Handle special keys
-  switch (event.code) {
-    case 'Space':
-      inputState.buttons.jump = true;
-      inputState.movement.jump = true;
-      break;
-    case 'ShiftLeft':
-    case 'Shift':
-      inputState.buttons.sprint = true;
-      break;
-    case 'ControlLeft':
-    case 'Control':
-      inputState.buttons.slide = true;
-      break;
-    case 'KeyR':
-      inputState.buttons.reload = true;
-      break;
-  }
+/**
+ * Copy the fields of a frame into inputState
+ */
+export function applyInputFrame(input: InputFrame) {
+  if (input.forward !== undefined) inputState.movement.forward = input.forward;
+  if (input.right !== undefined) inputState.movement.right = input.right;
+  if (input.jump !== undefined) {
+    inputState.movement.jump = input.jump;
+    inputState.buttons.jump = input.jump;
+  }
+  if (input.sprint !== undefined) inputState.buttons.sprint = input.sprint;
+  if (input.slide !== undefined) inputState.buttons.slide = input.slide;
+  if (input.shoot !== undefined) inputState.buttons.shoot = input.shoot;
+  if (input.reload !== undefined) inputState.buttons.reload = input.reload;
+  if (input.mouseDelta) inputState.mouse.delta.set(...input.mouseDelta);
 }
 
-// Handle key up events
-function handleKeyUp(event: KeyboardEvent) {
-  // Skip if we're typing in an input field
-  if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
-    return;
-  }
-
-  // Update key map
-  inputState.keys.set(event.code, false);
-  
-  // Debug
-  if (DEBUG && Math.random() < 0.1) {
-    log(`Key Up: ${event.code}`);
-  }
-  
-  // Handle movement keys
-  updateMovementFromKeys();
-  
-  // Handle special keys
-  switch (event.code) {
-    case 'Space':
-      inputState.buttons.jump = false;
-      inputState.movement.jump = false;
-      break;
-    case 'ShiftLeft':
-    case 'Shift':
-      inputState.buttons.sprint = false;
-      break;
-    case 'ControlLeft':
-    case 'Control':
-      inputState.buttons.slide = false;
-      break;
-    case 'KeyR':
-      inputState.buttons.reload = false;
-      break;
-  }
+/**
+ * Current inputState as a frame with every field set
+ */
+export function captureInputFrame(): Required<InputFrame> {
+  return {
+    forward: inputState.movement.forward,
+    right: inputState.movement.right,
+    jump: inputState.buttons.jump,
+    sprint: inputState.buttons.sprint,
+    slide: inputState.buttons.slide,
+    shoot: inputState.buttons.shoot,
+    reload: inputState.buttons.reload,
+    mouseDelta: [inputState.mouse.delta.x, inputState.mouse.delta.y],
+  };
 }
 
-// Update movement values based on current key states
-function updateMovementFromKeys() {
-  // Reset movement values
-  let forward = 0;
-  let right = 0;
-  
-  // Forward/backward
-  if (inputState.keys.get('KeyW') || inputState.keys.get('ArrowUp')) {
-    forward = -1; // Negative is forward in three.js
-  } else if (inputState.keys.get('KeyS') || inputState.keys.get('ArrowDown')) {
-    forward = 1;
-  }
-  
-  // Left/right
-  if (inputState.keys.get('KeyA') || inputState.keys.get('ArrowLeft')) {
-    right = -1;
-  } else if (inputState.keys.get('KeyD') || inputState.keys.get('ArrowRight')) {
-    right = 1;
-  }
-  
-  // Update input state
-  inputState.movement.forward = forward;
-  inputState.movement.right = right;
-  
-  // Debug movement occasionally
-  if (DEBUG && Math.random() < 0.05 && (forward !== 0 || right !== 0)) {
-    log(`Movement: Forward=${forward}, Right=${right}`);
-  }
+/**
+ * Run `tap` at the end of every input system update, in the order taps
+ * were added. Used to record input or to replace it during playback.
+ * Returns a function that removes the tap.
+ */
+export function addInputTap(tap: InputTap): () => void {
+  inputTaps.add(tap);
+  return () => inputTaps.delete(tap);
 }
 
-// Handle mouse move events
-function handleMouseMove(event: MouseEvent) {
-  // Update mouse position
-  inputState.mouse.position.set(event.clientX, event.clientY);
-  
-  // Update mouse delta
-  inputState.mouse.delta.set(event.movementX, event.movementY);
-  
-  // Debug occasionally to avoid spam
-  if (DEBUG && Math.random() < 0.01) {
-    log(`Mouse move: position=${inputState.mouse.position.x},${inputState.mouse.position.y}, delta=${inputState.mouse.delta.x},${inputState.mouse.delta.y}`);
-  }
+/**
+ * Keep keyboard, mouse and gamepad input out of inputState, e.g. while a
+ * recording is replayed. Returns a function that lets it back in, starting
+ * from a clean state plus whatever is held at that point.
+ */
+export function suspendLiveInput(): () => void {
+  liveInputSuspensions++;
+
+  let resumed = false;
+  return () => {
+    if (resumed) return;
+    resumed = true;
+    liveInputSuspensions--;
+
+    if (liveInputSuspensions === 0) {
+      resetInputState();
+      if (initialized) syncInputState();
+    }
+  };
 }
 
-// Handle mouse down events
-function handleMouseDown(event: MouseEvent) {
-  switch (event.button) {
-    case 0: // Left button
-      inputState.mouse.buttons.left = true;
-      inputState.buttons.shoot = true;
-      break;
-    case 1: // Middle button
-      inputState.mouse.buttons.middle = true;
-      break;
-    case 2: // Right button
-      inputState.mouse.buttons.right = true;
-      break;
-  }
-  
-  if (DEBUG) {
-    log(`Mouse down: button=${event.button}`);
-  }
-}
+// Copy the current actions and axes into inputState
+function syncInputState() {
+  if (liveInputSuspensions > 0) return;
 
-// Handle mouse up events
-function handleMouseUp(event: MouseEvent) {
-  switch (event.button) {
-    case 0: // Left button
-      inputState.mouse.buttons.left = false;
-      inputState.buttons.shoot = false;
-      break;
-    case 1: // Middle button
-      inputState.mouse.buttons.middle = false;
-      break;
-    case 2: // Right button
-      inputState.mouse.buttons.right = false;
-      break;
-  }
-  
-  if (DEBUG) {
-    log(`Mouse up: button=${event.button}`);
-  }
+  inputState.movement.forward = inputActions.getAxis("moveY");
+  inputState.movement.right = inputActions.getAxis("moveX");
+  inputState.movement.jump = inputActions.isDown("jump");
+
+  inputState.buttons.jump = inputActions.isDown("jump");
+  inputState.buttons.sprint = inputActions.isDown("sprint");
+  inputState.buttons.slide = inputActions.isDown("crouch");
+  inputState.buttons.shoot = inputActions.isDown("fire");
+  inputState.buttons.reload = inputActions.isDown("reload");
 }
 
 // Initialize the input system when this module is loaded
-initInputSystem();
+if (hasDOM) {
+  initInputSystem();
+}
 
 /**
- * System that handles input from keyboard and mouse
+ * System that exposes player input to the ECS
  */
 export const inputSystem: System = {
   name: "inputSystem",
-
-  init() {
-    logInput("Initializing input system");
-
-    // Add event listeners
-    window.addEventListener("keydown", handleKeyDown, { passive: false });
-    window.addEventListener("keyup", handleKeyUp, { passive: false });
-    window.addEventListener("mousemove", handleMouseMove, { passive: false });
-    window.addEventListener("mousedown", handleMouseDown, { passive: false });
-    window.addEventListener("mouseup", handleMouseUp, { passive: false });
-    window.addEventListener("contextmenu", handleContextMenu);
-
-    // Prevent the browser from handling these keys
-    window.addEventListener("keydown", (e) => {
-      // Prevent browser from scrolling with space and arrow keys
-      if (["Space", "ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight", "w", "a", "s", "d"].includes(e.code)) {
-        e.preventDefault();
-      }
-    }, { passive: false });
-
-    // Handle page visibility changes
-    document.addEventListener("visibilitychange", () => {
-      if (document.hidden) {
-        // Reset all inputs when page is not visible
-        resetInputState();
-        logInput("Page hidden - all inputs reset");
-      }
-    });
-
-    logInput("Input system initialized successfully");
-  },
+  phase: "input",
 
   update() {
-    // Mouse deltas should be reset each frame
-    // We're choosing NOT to reset them here to allow them to be used
-    // by other systems during the frame. They'll be overwritten by
-    // the next mousemove event.
-
-    // Handle button states that might be held
-    inputState.buttons.shoot = inputState.mouse.buttons.left;
+    // Headless runs drive inputState directly
+    if (initialized) {
+      // Hand this tick's pointer movement to the systems that run after us
+      const { x, y } = inputActions.consumeLookDelta();
+      inputState.mouse.delta.set(x, y);
+    }
+
+    for (const tap of inputTaps) {
+      tap(inputState);
+    }
   },
-
-  cleanup() {
-    // Remove event listeners
-    window.removeEventListener("keydown", handleKeyDown);
-    window.removeEventListener("keyup", handleKeyUp);
-    window.removeEventListener("mousemove", handleMouseMove);
-    window.removeEventListener("mousedown", handleMouseDown);
-    window.removeEventListener("mouseup", handleMouseUp);
-    window.removeEventListener("contextmenu", handleContextMenu);
-
-    logInput("Input system cleaned up");
-  }
 };
-
-// Helper function to reset all inputs
-function resetAllInputs() {
-  inputState.movement.forward = 0;
-  inputState.movement.right = 0;
-  inputState.movement.jump = false;
-  inputState.mouse.delta.set(0, 0);
-  inputState.mouse.buttons.left = false;
-  inputState.mouse.buttons.right = false;
-  inputState.mouse.buttons.middle = false;
-  
-  // Reset all button states
-  Object.keys(inputState.buttons).forEach(key => {
-    (inputState.buttons as any)[key] = false;
-  });
-  
-  // Reset all key states
-  inputState.keys.clear();
-}
-
-function handleContextMenu(event: MouseEvent): void {
-  // Prevent context menu
-  event.preventDefault();
-}
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { HeadlessSimulation, createHeadlessSimulation } from "../../sim/headlessSimulation";
+import { PhysicsEntity, Vec3 } from "../types";
+import { findContact, getWorldCollider } from "./physicsSystem";
+
+// A thin wall across the origin, turned 45° so its bounds are much bigger than it is
+const WALL_YAW = Math.PI / 4;
+const WALL_NORMAL: Vec3 = [Math.SQRT1_2, 0, Math.SQRT1_2];
+
+describe("physicsSystem", () => {
+  let sim: HeadlessSimulation | null = null;
+
+  afterEach(() => {
+    sim?.dispose();
+    sim = null;
+  });
+
+  function setup(spawn: (ecs: HeadlessSimulation["ecs"]) => void): PhysicsEntity[] {
+    sim = createHeadlessSimulation({ setup: spawn });
+    return [...sim.ecs.getWorld().with("physics", "transform")];
+  }
+
+  function spawnWall(ecs: HeadlessSimulation["ecs"], size: Vec3 = [4, 2, 0.4]) {
+    ecs.spawn("staticProp", {
+      transform: { position: [0, 1, 0], rotation: [0, WALL_YAW, 0] },
+      physics: { size },
+    });
+  }
+
+  function spawnCrate(ecs: HeadlessSimulation["ecs"], position: Vec3, yaw = 0) {
+    ecs.spawn("staticProp", {
+      transform: { position, rotation: [0, yaw, 0] },
+      physics: { size: [0.2, 0.2, 0.2] },
+    });
+  }
+
+  describe("box against a turned box", () => {
+    it("doesn't touch inside the bounds but outside the box", () => {
+      const [wall, crate] = setup((ecs) => {
+        spawnWall(ecs);
+        spawnCrate(ecs, [1.2, 1, 1.2]);
+      });
+
+      expect(findContact(getWorldCollider(crate), getWorldCollider(wall))).toBeNull();
+    });
+
+    it("pushes out along the face normal", () => {
+      const [wall, crate] = setup((ecs) => {
+        spawnWall(ecs);
+        spawnCrate(ecs, [0.25 * WALL_NORMAL[0], 1, 0.25 * WALL_NORMAL[2]], WALL_YAW);
+      });
+
+      const contact = findContact(getWorldCollider(crate), getWorldCollider(wall));
+
+      expect(contact).not.toBeNull();
+      contact!.normal.forEach((value, axis) => expect(value).toBeCloseTo(WALL_NORMAL[axis], 6));
+      expect(contact!.depth).toBeCloseTo(0.05, 6);
+    });
+
+    it("still resolves unturned boxes on the shallowest axis", () => {
+      const [wall, crate] = setup((ecs) => {
+        ecs.spawn("staticProp", { transform: { position: [0, 1, 0] }, physics: { size: [4, 2, 0.4] } });
+        spawnCrate(ecs, [1, 1, 0.25]);
+      });
+
+      const contact = findContact(getWorldCollider(crate), getWorldCollider(wall));
+
+      expect(contact?.normal).toEqual([0, 0, 1]);
+      expect(contact?.depth).toBeCloseTo(0.05, 6);
+    });
+  });
+
+  it("slides the player along a turned wall", () => {
+    const [, player] = setup((ecs) => {
+      spawnWall(ecs, [12, 2, 0.4]);
+      ecs.spawn("player", { transform: { position: [0, 0, 3] } });
+    });
+
+    sim!.setInput({ forward: -1 });
+    sim!.stepSeconds(1.5);
+
+    const [x, , z] = player.transform.position;
+    // Deflected sideways instead of stopping dead against the wall's bounds
+    expect(x).toBeGreaterThan(1);
+    expect(z).toBeLessThan(1.5);
+    // Resting against the face, not inside the wall
+    const separation = x * WALL_NORMAL[0] + z * WALL_NORMAL[2];
+    // Half thickness plus the unturned player box across the diagonal
+    expect(separation).toBeGreaterThan(0.2 + Math.SQRT1_2 - 1e-3);
+  });
+});
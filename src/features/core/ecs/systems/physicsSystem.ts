@@ -1,53 +1,271 @@
-import { PhysicsEntity, System, World } from "../types";
+import { SpatialHash } from "../spatialHash";
+import { ColliderShape, PhysicsEntity, System, Vec3, World } from "../types";
 
-// Define simple collision box type
-export type CollisionBox = {
-  min: [number, number, number];
-  max: [number, number, number];
-};
+/**
+ * Collider of an entity in world space
+ *
+ * Boxes turn with the entity's yaw (rotation around Y), other rotation is
+ * ignored. Spheres and capsules are the same thing to the narrowphase: a
+ * vertical segment of half length `halfSegment` (0 for a sphere) with a
+ * radius.
+ */
+export interface WorldCollider {
+  shape: ColliderShape;
+  center: Vec3;
+  // Box half extents, or radius / half height for spheres and capsules
+  halfExtents: Vec3;
+  radius: number;
+  halfSegment: number;
+  yaw: number;
+  // Axis aligned bounds, for the broadphase
+  min: Vec3;
+  max: Vec3;
+}
+
+// Push out of a collider: `normal` points away from it, towards the mover
+interface Contact {
+  normal: Vec3;
+  depth: number;
+}
+
+// Normals steeper than this count as standing on something
+const GROUND_NORMAL_Y = 0.7;
+
+// Resolution passes per body, enough for corners where two walls meet
+const MAX_RESOLVE_PASSES = 4;
+
+/**
+ * Build the world space collider of an entity from its physics and transform
+ */
+export function getWorldCollider(entity: PhysicsEntity): WorldCollider {
+  const { position, rotation, scale } = entity.transform;
+  const [sx, sy, sz] = scale.map(Math.abs);
+  const size = entity.physics.size ?? [1, 1, 1];
+  const offset = entity.physics.offset ?? [0, 0, 0];
+  const shape = entity.physics.collider;
+
+  const center: Vec3 = [
+    position[0] + offset[0] * scale[0],
+    position[1] + offset[1] * scale[1],
+    position[2] + offset[2] * scale[2],
+  ];
+
+  let halfExtents: Vec3;
+  let radius = 0;
+  let halfSegment = 0;
+  const yaw = shape === "box" ? rotation[1] : 0;
+
+  if (shape === "box") {
+    halfExtents = [(size[0] * sx) / 2, (size[1] * sy) / 2, (size[2] * sz) / 2];
+  } else if (shape === "sphere") {
+    radius = (size[0] * Math.max(sx, sy, sz)) / 2;
+    halfExtents = [radius, radius, radius];
+  } else {
+    radius = (size[0] * Math.max(sx, sz)) / 2;
+    const halfHeight = Math.max((size[1] * sy) / 2, radius);
+    halfSegment = halfHeight - radius;
+    halfExtents = [radius, halfHeight, radius];
+  }
+
+  // Bounds of the box after turning it around Y
+  const cos = Math.abs(Math.cos(yaw));
+  const sin = Math.abs(Math.sin(yaw));
+  const boundsX = cos * halfExtents[0] + sin * halfExtents[2];
+  const boundsZ = sin * halfExtents[0] + cos * halfExtents[2];
 
-// Generate a collision box from position and a fixed size
-function generateCollisionBox(
-  position: [number, number, number],
-  size: [number, number, number] = [1, 2, 1]
-): CollisionBox {
   return {
-    min: [position[0] - size[0] / 2, position[1], position[2] - size[2] / 2],
-    max: [
-      position[0] + size[0] / 2,
-      position[1] + size[1],
-      position[2] + size[2] / 2,
+    shape,
+    center,
+    halfExtents,
+    radius,
+    halfSegment,
+    yaw,
+    min: [center[0] - boundsX, center[1] - halfExtents[1], center[2] - boundsZ],
+    max: [center[0] + boundsX, center[1] + halfExtents[1], center[2] + boundsZ],
+  };
+}
+
+function overlaps(a: WorldCollider, b: WorldCollider): boolean {
+  return (
+    a.min[0] <= b.max[0] &&
+    a.max[0] >= b.min[0] &&
+    a.min[1] <= b.max[1] &&
+    a.max[1] >= b.min[1] &&
+    a.min[2] <= b.max[2] &&
+    a.max[2] >= b.min[2]
+  );
+}
+
+// Point on a vertical segment closest to the vertical range [low, high]
+function closestSegmentY(collider: WorldCollider, low: number, high: number): number {
+  const bottom = collider.center[1] - collider.halfSegment;
+  const top = collider.center[1] + collider.halfSegment;
+  const overlapLow = Math.max(bottom, low);
+  const overlapHigh = Math.min(top, high);
+
+  if (overlapLow <= overlapHigh) return (overlapLow + overlapHigh) / 2;
+  return top < low ? top : bottom;
+}
+
+// Sphere or capsule against a (yawed) box
+function roundVsBox(round: WorldCollider, box: WorldCollider): Contact | null {
+  const [hx, hy, hz] = box.halfExtents;
+  const y = closestSegmentY(round, box.center[1] - hy, box.center[1] + hy);
+
+  // Sphere center in the box's local space
+  const cos = Math.cos(box.yaw);
+  const sin = Math.sin(box.yaw);
+  const dx = round.center[0] - box.center[0];
+  const dz = round.center[2] - box.center[2];
+  const local: Vec3 = [dx * cos - dz * sin, y - box.center[1], dx * sin + dz * cos];
+
+  const closest: Vec3 = [
+    Math.max(-hx, Math.min(hx, local[0])),
+    Math.max(-hy, Math.min(hy, local[1])),
+    Math.max(-hz, Math.min(hz, local[2])),
+  ];
+  const away: Vec3 = [local[0] - closest[0], local[1] - closest[1], local[2] - closest[2]];
+  const distance = Math.hypot(...away);
+
+  let normal: Vec3;
+  let depth: number;
+
+  if (distance > 1e-9) {
+    if (distance >= round.radius) return null;
+    normal = [away[0] / distance, away[1] / distance, away[2] / distance];
+    depth = round.radius - distance;
+  } else {
+    // Center is inside the box, leave through the nearest face
+    const faceDistances = [
+      hx - Math.abs(local[0]),
+      hy - Math.abs(local[1]),
+      hz - Math.abs(local[2]),
+    ];
+    const axis = faceDistances.indexOf(Math.min(...faceDistances));
+    normal = [0, 0, 0];
+    normal[axis] = local[axis] < 0 ? -1 : 1;
+    depth = faceDistances[axis] + round.radius;
+  }
+
+  // Back to world space
+  return {
+    normal: [
+      normal[0] * cos + normal[2] * sin,
+      normal[1],
+      -normal[0] * sin + normal[2] * cos,
     ],
+    depth,
+  };
+}
+
+// Two spheres or capsules
+function roundVsRound(a: WorldCollider, b: WorldCollider): Contact | null {
+  const bLow = b.center[1] - b.halfSegment;
+  const bHigh = b.center[1] + b.halfSegment;
+  const aY = closestSegmentY(a, bLow, bHigh);
+  const bY = Math.max(bLow, Math.min(bHigh, aY));
+
+  const away: Vec3 = [a.center[0] - b.center[0], aY - bY, a.center[2] - b.center[2]];
+  const distance = Math.hypot(...away);
+  const reach = a.radius + b.radius;
+  if (distance >= reach) return null;
+
+  // Exactly on top of each other, push up
+  if (distance < 1e-9) return { normal: [0, 1, 0], depth: reach };
+
+  return {
+    normal: [away[0] / distance, away[1] / distance, away[2] / distance],
+    depth: reach - distance,
   };
 }
 
-// Check collision between two boxes
-function checkCollision(box1: CollisionBox, box2: CollisionBox): boolean {
+// Horizontal X and Z axes of a box turned by its yaw
+function boxAxes(box: WorldCollider): [number, number][] {
+  const cos = Math.cos(box.yaw);
+  const sin = Math.sin(box.yaw);
+  return [
+    [cos, -sin],
+    [sin, cos],
+  ];
+}
+
+// Half the width of a (yawed) box along a horizontal axis
+function boxRadius(box: WorldCollider, x: number, z: number): number {
+  const [[xx, xz], [zx, zz]] = boxAxes(box);
   return (
-    box1.min[0] <= box2.max[0] &&
-    box1.max[0] >= box2.min[0] &&
-    box1.min[1] <= box2.max[1] &&
-    box1.max[1] >= box2.min[1] &&
-    box1.min[2] <= box2.max[2] &&
-    box1.max[2] >= box2.min[2]
+    box.halfExtents[0] * Math.abs(xx * x + xz * z) +
+    box.halfExtents[2] * Math.abs(zx * x + zz * z)
   );
 }
 
+// Two (yawed) boxes, by separating axes: the vertical one plus the
+// horizontal X and Z of each box
+function boxVsBox(a: WorldCollider, b: WorldCollider): Contact | null {
+  const depthY = Math.min(a.max[1] - b.min[1], b.max[1] - a.min[1]);
+  if (depthY <= 0) return null;
+
+  let best: Contact = {
+    normal: [0, a.center[1] < b.center[1] ? -1 : 1, 0],
+    depth: depthY,
+  };
+
+  const dx = a.center[0] - b.center[0];
+  const dz = a.center[2] - b.center[2];
+  for (const [x, z] of [...boxAxes(a), ...boxAxes(b)]) {
+    const distance = dx * x + dz * z;
+    const depth = boxRadius(a, x, z) + boxRadius(b, x, z) - Math.abs(distance);
+    if (depth <= 0) return null;
+
+    if (depth < best.depth) {
+      const sign = distance < 0 ? -1 : 1;
+      best = { normal: [x * sign, 0, z * sign], depth };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * How to push `mover` out of `other`, or null if they don't touch
+ */
+export function findContact(mover: WorldCollider, other: WorldCollider): Contact | null {
+  if (!overlaps(mover, other)) return null;
+
+  const moverIsBox = mover.shape === "box";
+  const otherIsBox = other.shape === "box";
+
+  if (moverIsBox && otherIsBox) return boxVsBox(mover, other);
+  if (!moverIsBox && !otherIsBox) return roundVsRound(mover, other);
+  if (otherIsBox) return roundVsBox(mover, other);
+
+  // Box moving into a sphere or capsule: the same contact, seen from the other side
+  const contact = roundVsBox(other, mover);
+  if (!contact) return null;
+
+  const [x, y, z] = contact.normal;
+  return { normal: [-x, -y, -z], depth: contact.depth };
+}
+
+// Broadphase over static bodies, rebuilt every step
+const staticHash = new SpatialHash<{ entity: PhysicsEntity; collider: WorldCollider }>(4);
+
 /**
- * System that handles basic physics and collisions
+ * System that moves dynamic bodies and resolves collisions
+ *
+ * Colliders come from each entity's physics and transform components.
+ * Dynamic bodies collide with static ones (found through a spatial hash)
+ * and with the ground plane at y = 0. On contact a body is pushed out along
+ * the contact normal and loses only the velocity going into the surface,
+ * so it slides along walls and floors instead of stopping dead.
  */
 export const physicsSystem: System = {
   name: "physics",
-  // Run after player movement to apply physics constraints
-  dependencies: ["playerMovement"],
+  // Runs after the simulation phase to apply physics constraints
+  phase: "physics",
 
   init(world: World) {
     // Log initial number of physics entities
-    const physicsEntitiesCount = world.query<PhysicsEntity>(
-      (entity): entity is PhysicsEntity => {
-        return Boolean(entity.physics && entity.transform);
-      }
-    ).length;
+    const physicsEntitiesCount = world.with("physics", "transform").length;
 
     console.log(
       `Physics system initialized. Found ${physicsEntitiesCount} physics entities.`
@@ -56,77 +274,89 @@ export const physicsSystem: System = {
 
   update(world: World, delta: number) {
     // Get all entities with physics components
-    const physicsEntities = world.query<PhysicsEntity>(
-      (entity): entity is PhysicsEntity => {
-        return Boolean(entity.physics && entity.transform);
-      }
-    );
+    const physicsEntities = world.with("physics", "transform");
 
-    // Step 1: Apply forces and update velocities
-    physicsEntities.forEach((entity) => {
-      if (entity.physics.static) return; // Skip static objects
+    // Static colliders are hashed once per step for the collision pass
+    staticHash.clear();
+    for (const entity of physicsEntities) {
+      if (!entity.physics.static) continue;
 
-      // Apply gravity
-      entity.physics.velocity[1] -= 9.8 * delta;
+      const collider = getWorldCollider(entity);
+      staticHash.insert({ entity, collider }, collider.min, collider.max);
+    }
 
-      // Apply drag/damping to horizontal velocity
-      entity.physics.velocity[0] *= 0.9;
-      entity.physics.velocity[2] *= 0.9;
-    });
+    for (const entity of physicsEntities) {
+      if (entity.physics.static) continue; // Skip static objects
 
-    // Step 2: Update positions based on velocities
-    physicsEntities.forEach((entity) => {
-      if (entity.physics.static) return; // Skip static objects
+      const { physics, transform } = entity;
 
-      // Store previous position for collision resolution
-      const prevPosition: [number, number, number] = [
-        ...entity.transform.position,
-      ];
+      // Apply gravity
+      physics.velocity[1] -= 9.8 * delta;
+
+      // Apply drag/damping to horizontal velocity
+      physics.velocity[0] *= 0.9;
+      physics.velocity[2] *= 0.9;
 
       // Update position based on velocity
-      entity.transform.position[0] += entity.physics.velocity[0] * delta;
-      entity.transform.position[1] += entity.physics.velocity[1] * delta;
-      entity.transform.position[2] += entity.physics.velocity[2] * delta;
-
-      // Basic ground collision (simplified)
-      if (entity.transform.position[1] < 0) {
-        entity.transform.position[1] = 0;
-        entity.physics.velocity[1] = 0;
-      }
+      transform.position[0] += physics.velocity[0] * delta;
+      transform.position[1] += physics.velocity[1] * delta;
+      transform.position[2] += physics.velocity[2] * delta;
 
-      // Generate collision box for this entity
-      const entityBox = generateCollisionBox(entity.transform.position);
+      physics.grounded = false;
 
-      // Step 3: Check for collisions with static objects
-      physicsEntities.forEach((other) => {
-        // Skip self or non-static objects
-        if (entity.id === other.id || !other.physics.static) return;
+      for (let pass = 0; pass < MAX_RESOLVE_PASSES; pass++) {
+        let collider = getWorldCollider(entity);
+        let resolved = false;
 
-        const otherBox = generateCollisionBox(other.transform.position);
+        // Ground plane under everything
+        if (collider.min[1] < 0) {
+          applyContact(entity, { normal: [0, 1, 0], depth: -collider.min[1] });
+          collider = getWorldCollider(entity);
+          resolved = true;
+        }
+
+        for (const other of staticHash.query(collider.min, collider.max)) {
+          if (other.entity.id === entity.id) continue;
 
-        if (checkCollision(entityBox, otherBox)) {
-          // Simple collision response - revert to previous position
-          entity.transform.position = prevPosition;
+          const contact = findContact(collider, other.collider);
+          if (!contact) continue;
 
-          // Zero out velocity in the direction of collision (simplified)
-          entity.physics.velocity = [0, 0, 0];
+          applyContact(entity, contact);
+          collider = getWorldCollider(entity);
+          resolved = true;
         }
-      });
 
-      // Update the entity in the world
-      world.update(entity);
-    });
+        if (!resolved) break;
+      }
+    }
   },
 
   cleanup(world: World) {
-    const physicsEntitiesCount = world.query<PhysicsEntity>(
-      (entity): entity is PhysicsEntity => {
-        return Boolean(entity.physics && entity.transform);
-      }
-    ).length;
+    const physicsEntitiesCount = world.with("physics", "transform").length;
 
     console.log(
       `Physics system cleaned up. Found ${physicsEntitiesCount} physics entities.`
     );
   },
 };
+
+// Push a body out and drop the velocity going into the surface
+function applyContact(entity: PhysicsEntity, { normal, depth }: Contact): void {
+  const { position } = entity.transform;
+  const { velocity } = entity.physics;
+
+  position[0] += normal[0] * depth;
+  position[1] += normal[1] * depth;
+  position[2] += normal[2] * depth;
+
+  const into = velocity[0] * normal[0] + velocity[1] * normal[1] + velocity[2] * normal[2];
+  if (into < 0) {
+    velocity[0] -= normal[0] * into;
+    velocity[1] -= normal[1] * into;
+    velocity[2] -= normal[2] * into;
+  }
+
+  if (normal[1] > GROUND_NORMAL_Y) {
+    entity.physics.grounded = true;
+  }
+}
@@ -1,4 +1,4 @@
-import { PlayerEntity, System, World } from "../types";
+import { System, World } from "../types";
 import { inputState } from "./inputSystem";
 
 /**
@@ -6,16 +6,13 @@ import { inputState } from "./inputSystem";
  */
 export const playerMovementSystem: System = {
   name: "playerMovement",
-  // Define dependencies to ensure input system runs first
-  dependencies: ["input"],
+  phase: "simulation",
+  // Read input that the input system gathered this frame
+  after: ["inputSystem"],
 
   init(world: World) {
     // Log initial number of player entities
-    const playerCount = world.query<PlayerEntity>(
-      (entity): entity is PlayerEntity => {
-        return Boolean(entity.player && entity.transform && entity.physics);
-      }
-    ).length;
+    const playerCount = world.with("player", "transform", "physics").length;
 
     console.log(
       `Player movement system initialized. Found ${playerCount} player entities.`
@@ -24,11 +21,7 @@ export const playerMovementSystem: System = {
 
   update(world: World, delta: number) {
     // Query for entities with player and transform components
-    const players = world.query<PlayerEntity>(
-      (entity): entity is PlayerEntity => {
-        return Boolean(entity.player && entity.transform && entity.physics);
-      }
-    );
+    const players = world.with("player", "transform", "physics");
 
     // Process each player entity
     players.forEach((player) => {
@@ -55,11 +48,13 @@ export const playerMovementSystem: System = {
       if (playerData.isJumping) {
         physics.velocity[1] -= 9.8 * delta; // Simple gravity
 
-        // Check if player has landed (simplified)
+        // Check if player has landed, on the ground or on top of something
         if (transform.position[1] <= 0) {
           transform.position[1] = 0;
           physics.velocity[1] = 0;
           playerData.isJumping = false;
+        } else if (physics.grounded && physics.velocity[1] <= 0) {
+          playerData.isJumping = false;
         }
       }
 
@@ -67,19 +62,12 @@ export const playerMovementSystem: System = {
       transform.position[0] += physics.velocity[0] * delta;
       transform.position[1] += physics.velocity[1] * delta;
       transform.position[2] += physics.velocity[2] * delta;
-
-      // Update the entity in the world
-      world.update(player);
     });
   },
 
   cleanup(world: World) {
     // Check how many player entities exist when cleaning up
-    const playerCount = world.query<PlayerEntity>(
-      (entity): entity is PlayerEntity => {
-        return Boolean(entity.player && entity.transform && entity.physics);
-      }
-    ).length;
+    const playerCount = world.with("player", "transform", "physics").length;
 
     console.log(
       `Player movement system cleaned up. Found ${playerCount} player entities.`
@@ -0,0 +1,63 @@
+import { Euler, Matrix4, Quaternion, Vector3 } from "three";
+import { Entity, System, World } from "../types";
+
+// Scratch objects reused between updates
+const euler = new Euler();
+const quaternion = new Quaternion();
+const position = new Vector3();
+const scale = new Vector3();
+
+/**
+ * Local matrix of a transform, rotation is Euler XYZ in radians
+ */
+function composeLocal(entity: Entity, target: Matrix4): Matrix4 {
+  const transform = entity.transform;
+  if (!transform) return target.identity();
+
+  position.fromArray(transform.position);
+  quaternion.setFromEuler(euler.fromArray(transform.rotation));
+  scale.fromArray(transform.scale);
+  return target.compose(position, quaternion, scale);
+}
+
+/**
+ * System that propagates transforms down the entity hierarchy
+ *
+ * Children's `transform` is relative to their parent; the resulting world
+ * matrix and position are written to `worldTransform` for rendering and
+ * gameplay code that needs absolute positions.
+ */
+export const transformHierarchySystem: System = {
+  name: "transformHierarchy",
+  // Run after physics has moved things, before anything is rendered
+  phase: "postPhysics",
+
+  update(world: World) {
+    // World matrices computed this frame, so shared parents are only solved once
+    const solved = new Map<string, Matrix4>();
+
+    const resolve = (entity: Entity): Matrix4 => {
+      let matrix = solved.get(entity.id);
+      if (matrix) return matrix;
+
+      matrix = composeLocal(entity, new Matrix4());
+      const parent = world.getParent(entity.id);
+      if (parent) {
+        matrix.premultiply(resolve(parent));
+      }
+
+      solved.set(entity.id, matrix);
+      return matrix;
+    };
+
+    for (const entity of world.with("transform", "worldTransform")) {
+      const matrix = resolve(entity);
+      const worldTransform = entity.worldTransform;
+
+      matrix.toArray(worldTransform.matrix);
+      worldTransform.position[0] = matrix.elements[12];
+      worldTransform.position[1] = matrix.elements[13];
+      worldTransform.position[2] = matrix.elements[14];
+    }
+  },
+};
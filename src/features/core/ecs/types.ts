@@ -1,109 +1,189 @@
 // Core ECS Types
+import type { CommandBuffer } from "./commandBuffer";
+import type { EventBus, GameEvents } from "./events";
+
+export type Vec3 = [number, number, number];
+
+// Component data types
+export interface TransformComponent {
+  position: Vec3;
+  rotation: Vec3;
+  scale: Vec3;
+}
+
+// Collider shapes. Capsules stand upright along Y.
+export type ColliderShape = "box" | "sphere" | "capsule";
+
+export interface PhysicsComponent {
+  velocity: Vec3;
+  mass: number;
+  collider: ColliderShape;
+  static: boolean;
+  // Collider size before transform.scale, defaults to [1, 1, 1]: box extents,
+  // sphere diameter in x, capsule diameter in x and total height in y
+  size?: Vec3;
+  // Collider center relative to the entity position (scaled), defaults to [0, 0, 0]
+  offset?: Vec3;
+  // Resting on something, written by the physics system
+  grounded?: boolean;
+}
+
+export interface CameraComponent {
+  fov: number;
+  near: number;
+  far: number;
+  isActive: boolean;
+}
+
+export interface PlayerComponent {
+  health: number;
+  speed: number;
+  jumpForce: number;
+  isJumping: boolean;
+  weapons: string[];
+  currentWeapon: string;
+}
+
+export interface WeaponComponent {
+  name: string;
+  damage: number;
+  fireRate: number;
+  ammo: number;
+  maxAmmo: number;
+  reloadTime: number;
+  isReloading: boolean;
+  lastFired: number;
+  projectileType: string;
+}
+
+export interface EnemyComponent {
+  type: string;
+  health: number;
+  damage: number;
+  speed: number;
+  state: "idle" | "patrol" | "chase" | "attack" | "dead";
+  detectionRadius: number;
+  attackRadius: number;
+  target?: string; // ID of the target entity
+}
+
+export interface ProjectileComponent {
+  damage: number;
+  speed: number;
+  source: string; // ID of the entity that fired the projectile
+  lifetime: number; // How long the projectile lives in seconds
+  createdAt: number; // Time when the projectile was created
+}
+
+export type PickupType = "health" | "armor" | "ammo" | "score";
+
+export interface PickupComponent {
+  type: PickupType;
+  amount: number;
+  respawnTime: number; // Seconds before the pickup comes back, 0 for never
+}
+
+export interface HierarchyComponent {
+  parent: string; // ID of the parent entity
+}
+
+// Derived from the transform and its ancestors by the transform hierarchy system
+export interface WorldTransformComponent {
+  matrix: number[]; // Column-major 4x4 world matrix
+  position: Vec3; // World-space position, extracted from the matrix
+}
+
+/**
+ * Map of every component name to its data type
+ *
+ * Features can add their own components through declaration merging:
+ * `declare module ".../ecs/types" { interface ComponentTypes { ... } }`
+ * followed by a `defineComponent` call for defaults and validation.
+ */
+export interface ComponentTypes {
+  transform: TransformComponent;
+  physics: PhysicsComponent;
+  camera: CameraComponent;
+  player: PlayerComponent;
+  weapon: WeaponComponent;
+  enemy: EnemyComponent;
+  projectile: ProjectileComponent;
+  pickup: PickupComponent;
+  hierarchy: HierarchyComponent;
+  worldTransform: WorldTransformComponent;
+}
+
+export type ComponentName = keyof ComponentTypes;
 
 // Basic Entity type
 export type Entity = {
   id: string;
-  [key: string]: unknown;
+} & {
+  [K in ComponentName]?: ComponentTypes[K];
 };
 
-// Component types
-export type Component = {
-  type: string;
-  [key: string]: unknown;
+// Entity that is guaranteed to have the given components
+export type EntityWith<K extends ComponentName> = Entity & {
+  [P in K]-?: ComponentTypes[P];
 };
 
+// Components that can be passed when creating an entity
+export type EntityComponents = Omit<Entity, "id">;
+
 // Forward declaration of World class for type reference
 export interface World {
   entities: Entity[];
+  events: EventBus<GameEvents>;
+  commands: CommandBuffer;
   add(entity: Entity): void;
   remove(entity: Entity): void;
   update(entity: Entity): void;
+  get(entityId: string): Entity | undefined;
+  has(entityId: string): boolean;
+  getParent(entityId: string): Entity | undefined;
+  getChildren(entityId: string): Entity[];
+  getAncestors(entityId: string): Entity[];
+  getDescendants(entityId: string): Entity[];
+  with<K extends ComponentName>(...components: K[]): EntityWith<K>[];
   query<T extends Entity>(queryFn: (entity: Entity) => entity is T): T[];
 }
 
+// Scheduling phases, in execution order
+export type SystemPhase =
+  | "input"
+  | "simulation"
+  | "physics"
+  | "postPhysics"
+  | "renderSync";
+
 // System interface
 export interface System {
   name: string;
   init?: (world: World) => void;
   update?: (world: World, delta: number, elapsedTime: number) => void;
   cleanup?: (world: World) => void;
-  dependencies?: string[]; // Systems that must run before this one
+  phase?: SystemPhase; // Defaults to "simulation"
+  after?: string[]; // Systems that must run before this one
+  before?: string[]; // Systems that must run after this one
+  dependencies?: string[]; // Alias for `after`
 }
 
 // Query is a type that defines a filter for entities
 export type Query<T extends Entity = Entity> = (entity: Entity) => entity is T;
 
 // Specific entity types with required components
-export type TransformEntity = Entity & {
-  transform: {
-    position: [number, number, number];
-    rotation: [number, number, number];
-    scale: [number, number, number];
-  };
-};
+export type TransformEntity = EntityWith<"transform">;
 
-export type PhysicsEntity = TransformEntity & {
-  physics: {
-    velocity: [number, number, number];
-    mass: number;
-    collider: string;
-    static: boolean;
-  };
-};
+export type PhysicsEntity = EntityWith<"transform" | "physics">;
 
-export type CameraEntity = TransformEntity & {
-  camera: {
-    fov: number;
-    near: number;
-    far: number;
-    isActive: boolean;
-  };
-};
+export type CameraEntity = EntityWith<"transform" | "camera">;
 
-export type PlayerEntity = PhysicsEntity & {
-  player: {
-    health: number;
-    speed: number;
-    jumpForce: number;
-    isJumping: boolean;
-    weapons: string[];
-    currentWeapon: string;
-  };
-};
+export type PlayerEntity = EntityWith<"transform" | "physics" | "player">;
 
-export type WeaponEntity = TransformEntity & {
-  weapon: {
-    name: string;
-    damage: number;
-    fireRate: number;
-    ammo: number;
-    maxAmmo: number;
-    reloadTime: number;
-    isReloading: boolean;
-    lastFired: number;
-    projectileType: string;
-  };
-};
+export type WeaponEntity = EntityWith<"transform" | "weapon">;
 
-export type EnemyEntity = PhysicsEntity & {
-  enemy: {
-    type: string;
-    health: number;
-    damage: number;
-    speed: number;
-    state: "idle" | "patrol" | "chase" | "attack" | "dead";
-    detectionRadius: number;
-    attackRadius: number;
-    target?: string; // ID of the target entity
-  };
-};
+export type EnemyEntity = EntityWith<"transform" | "physics" | "enemy">;
 
-export type ProjectileEntity = PhysicsEntity & {
-  projectile: {
-    damage: number;
-    speed: number;
-    source: string; // ID of the entity that fired the projectile
-    lifetime: number; // How long the projectile lives in seconds
-    createdAt: number; // Time when the projectile was created
-  };
-};
+export type ProjectileEntity = EntityWith<"transform" | "physics" | "projectile">;
+
+export type PickupEntity = EntityWith<"transform" | "pickup">;
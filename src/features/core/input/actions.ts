@@ -0,0 +1,627 @@
+/**
+ * Named things the player can do, independent of the device that does them
+ */
+export type InputAction =
+  // Movement
+  | "moveForward"
+  | "moveBackward"
+  | "moveLeft"
+  | "moveRight"
+  | "jump"
+  | "sprint"
+  | "crouch"
+  // Combat
+  | "fire"
+  | "altFire"
+  | "reload"
+  | "weaponNext"
+  | "weaponPrev"
+  | "weapon1"
+  | "weapon2"
+  | "weapon3"
+  | "weapon4"
+  | "interact"
+  // Menus
+  | "menuUp"
+  | "menuDown"
+  | "menuConfirm"
+  | "menuBack"
+  // Vehicles
+  | "brake"
+  // Spectating
+  | "ascend"
+  | "descend"
+  | "spectateNext"
+  | "spectatePrev";
+
+/**
+ * Analog values in [-1, 1] built from actions (look axes are raw pointer deltas)
+ */
+export type InputAxis = "moveX" | "moveY" | "lookX" | "lookY";
+
+/**
+ * Sets of bindings that are active at the same time
+ */
+export type InputContext = "gameplay" | "menu" | "vehicle" | "spectator";
+
+/**
+ * A physical input: a `KeyboardEvent.code` ("KeyW", "Space"), a mouse
+ * button ("Mouse0" left, "Mouse1" middle, "Mouse2" right), the wheel
+ * ("WheelUp", "WheelDown", which press and release immediately) or a gamepad
+ * button by its standard mapping index ("Pad0" A, "Pad7" right trigger).
+ */
+export type Binding = string;
+
+export type BindingMap = Partial<Record<InputAction, Binding[]>>;
+
+// Listener for an action changing between released and held
+export type ActionListener = (action: InputAction) => void;
+
+// Display names, also the list of every action
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveForward: "Move forward",
+  moveBackward: "Move backward",
+  moveLeft: "Strafe left",
+  moveRight: "Strafe right",
+  jump: "Jump",
+  sprint: "Sprint",
+  crouch: "Crouch / slide",
+  fire: "Fire",
+  altFire: "Alt fire",
+  reload: "Reload",
+  weaponNext: "Next weapon",
+  weaponPrev: "Previous weapon",
+  weapon1: "Weapon 1",
+  weapon2: "Weapon 2",
+  weapon3: "Weapon 3",
+  weapon4: "Weapon 4",
+  interact: "Interact",
+  menuUp: "Menu up",
+  menuDown: "Menu down",
+  menuConfirm: "Confirm",
+  menuBack: "Back",
+  brake: "Brake",
+  ascend: "Ascend",
+  descend: "Descend",
+  spectateNext: "Next player",
+  spectatePrev: "Previous player",
+};
+
+export const INPUT_CONTEXTS: readonly InputContext[] = [
+  "gameplay",
+  "menu",
+  "vehicle",
+  "spectator",
+];
+
+const MOVEMENT_BINDINGS: BindingMap = {
+  moveForward: ["KeyW", "ArrowUp"],
+  moveBackward: ["KeyS", "ArrowDown"],
+  moveLeft: ["KeyA", "ArrowLeft"],
+  moveRight: ["KeyD", "ArrowRight"],
+};
+
+// Gamepad movement comes from the left stick as analog axes, see GamepadInput
+export const DEFAULT_BINDINGS: Record<InputContext, BindingMap> = {
+  gameplay: {
+    ...MOVEMENT_BINDINGS,
+    jump: ["Space", "Pad0"],
+    sprint: ["ShiftLeft", "Pad10"],
+    crouch: ["ControlLeft", "KeyC", "Pad1"],
+    fire: ["Mouse0", "Pad7"],
+    altFire: ["Mouse2", "Pad6"],
+    reload: ["KeyR", "Pad2"],
+    weaponNext: ["WheelDown", "Pad5"],
+    weaponPrev: ["WheelUp", "KeyQ", "Pad4"],
+    weapon1: ["Digit1", "Pad12"],
+    weapon2: ["Digit2", "Pad15"],
+    weapon3: ["Digit3", "Pad13"],
+    weapon4: ["Digit4", "Pad14"],
+    interact: ["KeyE", "Pad3"],
+  },
+  menu: {
+    menuUp: ["ArrowUp", "KeyW", "Pad12"],
+    menuDown: ["ArrowDown", "KeyS", "Pad13"],
+    menuConfirm: ["Enter", "Space", "Pad0"],
+    menuBack: ["Escape", "Backspace", "Pad1"],
+  },
+  vehicle: {
+    ...MOVEMENT_BINDINGS,
+    brake: ["Space", "Pad0"],
+    fire: ["Mouse0", "Pad7"],
+    altFire: ["Mouse2", "Pad6"],
+    interact: ["KeyE", "Pad3"],
+  },
+  spectator: {
+    ...MOVEMENT_BINDINGS,
+    ascend: ["Space", "Pad0"],
+    descend: ["ControlLeft", "Pad1"],
+    spectateNext: ["Mouse0", "Pad5"],
+    spectatePrev: ["Mouse2", "Pad4"],
+  },
+};
+
+// Digital axes, each made from a negative and a positive action
+const AXIS_ACTIONS: Record<"moveX" | "moveY", [InputAction, InputAction]> = {
+  moveX: ["moveLeft", "moveRight"],
+  // Negative is forward in three.js
+  moveY: ["moveForward", "moveBackward"],
+};
+
+// Keys the browser would otherwise scroll the page with
+const PREVENT_DEFAULT = new Set(["Space", "ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"]);
+
+/**
+ * Translates raw keyboard and mouse input into named actions and axes
+ *
+ * Game code asks "is `fire` held?" instead of "is Mouse0 down?", so bindings
+ * can change (per context, or by the player) without touching consumers.
+ * Only the bindings of the active context are considered.
+ */
+export class ActionMap {
+  private bindings: Record<InputContext, BindingMap>;
+  private context: InputContext = "gameplay";
+  private held = new Set<Binding>();
+  // Actions held directly by on-screen controls, not through a binding
+  private heldActions = new Set<InputAction>();
+  private lookDelta = { x: 0, y: 0 };
+  private analog = new Map<string, { moveX: number; moveY: number }>();
+  private pressedListeners = new Map<InputAction, Set<ActionListener>>();
+  private releasedListeners = new Map<InputAction, Set<ActionListener>>();
+  private changeListeners = new Set<() => void>();
+  private bindingListeners = new Set<() => void>();
+  private bindingsVersion: number = 0;
+  private target: Window | null = null;
+
+  constructor(bindings: Record<InputContext, BindingMap> = DEFAULT_BINDINGS) {
+    this.bindings = structuredClone(bindings);
+  }
+
+  /**
+   * Switch the active binding context
+   *
+   * Everything held is released first, so an input that is still down has
+   * to be pressed again before it counts in the new context (closing a menu
+   * with a click shouldn't also fire).
+   */
+  setContext(context: InputContext): void {
+    if (context === this.context) return;
+
+    this.releaseAll();
+    this.context = context;
+    this.notifyChange();
+  }
+
+  getContext(): InputContext {
+    return this.context;
+  }
+
+  /**
+   * Bindings of an action, in the active context unless one is given
+   */
+  getBindings(action: InputAction, context: InputContext = this.context): readonly Binding[] {
+    return this.bindings[context][action] ?? [];
+  }
+
+  setBindings(
+    action: InputAction,
+    bindings: Binding[],
+    context: InputContext = this.context
+  ): void {
+    this.bindings[context][action] = [...bindings];
+    this.notifyBindingsChange();
+  }
+
+  /**
+   * Copy of the bindings of every context
+   */
+  getAllBindings(): Record<InputContext, BindingMap> {
+    return structuredClone(this.bindings);
+  }
+
+  /**
+   * Replace the bindings of every context
+   */
+  setAllBindings(bindings: Record<InputContext, BindingMap>): void {
+    this.releaseAll();
+    this.bindings = structuredClone(bindings);
+    this.notifyBindingsChange();
+  }
+
+  /**
+   * Go back to DEFAULT_BINDINGS, for one context or all of them
+   */
+  resetBindings(context?: InputContext): void {
+    if (context) {
+      this.releaseAll();
+      this.bindings[context] = structuredClone(DEFAULT_BINDINGS[context]);
+      this.notifyBindingsChange();
+    } else {
+      this.setAllBindings(DEFAULT_BINDINGS);
+    }
+  }
+
+  /**
+   * Other actions in a context that already use a binding
+   */
+  findConflicts(
+    binding: Binding,
+    context: InputContext = this.context,
+    except?: InputAction
+  ): InputAction[] {
+    return (Object.entries(this.bindings[context]) as [InputAction, Binding[]][])
+      .filter(([action, bindings]) => action !== except && bindings.includes(binding))
+      .map(([action]) => action);
+  }
+
+  /**
+   * Counter bumped on every binding change, for change detection in the UI
+   */
+  getBindingsVersion(): number {
+    return this.bindingsVersion;
+  }
+
+  /**
+   * Call `listener` after bindings change, returns an unsubscribe function
+   */
+  onBindingsChange(listener: () => void): () => void {
+    this.bindingListeners.add(listener);
+    return () => this.bindingListeners.delete(listener);
+  }
+
+  /**
+   * Check if any binding of an action is held
+   */
+  isDown(action: InputAction): boolean {
+    return (
+      this.heldActions.has(action) ||
+      this.getBindings(action).some((binding) => this.held.has(binding))
+    );
+  }
+
+  /**
+   * Current value of an axis
+   *
+   * Movement axes are -1 to 1: keys give -1, 0 or 1, analog input anything
+   * in between. Look axes are pointer movement since the last
+   * `consumeLookDelta`.
+   */
+  getAxis(axis: InputAxis): number {
+    if (axis === "lookX") return this.lookDelta.x;
+    if (axis === "lookY") return this.lookDelta.y;
+
+    const [negative, positive] = AXIS_ACTIONS[axis];
+    let value = (this.isDown(positive) ? 1 : 0) - (this.isDown(negative) ? 1 : 0);
+    for (const analog of this.analog.values()) {
+      value += analog[axis];
+    }
+    return Math.max(-1, Math.min(1, value));
+  }
+
+  /**
+   * Feed an analog movement value (-1 to 1), e.g. from a gamepad stick
+   *
+   * Each source ("gamepad", "touch") keeps its own value, and all of them
+   * are added to the digital value of the axis.
+   */
+  setAnalogAxis(axis: "moveX" | "moveY", value: number, source: string): void {
+    let analog = this.analog.get(source);
+    if (!analog) {
+      analog = { moveX: 0, moveY: 0 };
+      this.analog.set(source, analog);
+    }
+    if (analog[axis] === value) return;
+
+    analog[axis] = value;
+    this.notifyChange();
+  }
+
+  /**
+   * Read and reset the accumulated pointer movement
+   */
+  consumeLookDelta(): { x: number; y: number } {
+    const delta = { ...this.lookDelta };
+    this.lookDelta.x = 0;
+    this.lookDelta.y = 0;
+    return delta;
+  }
+
+  /**
+   * Call `listener` whenever an action goes from released to held
+   *
+   * Returns an unsubscribe function.
+   */
+  onPressed(action: InputAction, listener: ActionListener): () => void {
+    return this.listen(this.pressedListeners, action, listener);
+  }
+
+  /**
+   * Call `listener` whenever an action goes from held to released
+   */
+  onReleased(action: InputAction, listener: ActionListener): () => void {
+    return this.listen(this.releasedListeners, action, listener);
+  }
+
+  /**
+   * Call `listener` after any change to held actions, axes or bindings
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Feed a physical input going down (from DOM events or a gamepad)
+   */
+  press(binding: Binding): void {
+    if (this.held.has(binding)) return; // Key repeat
+
+    const actions = this.actionsFor(binding).filter((action) => !this.isDown(action));
+    this.held.add(binding);
+
+    for (const action of actions) {
+      this.emit(this.pressedListeners, action);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Feed a physical input going up
+   */
+  release(binding: Binding): void {
+    if (!this.held.delete(binding)) return;
+
+    for (const action of this.actionsFor(binding)) {
+      if (!this.isDown(action)) this.emit(this.releasedListeners, action);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Hold an action without a binding, for on-screen controls
+   */
+  pressAction(action: InputAction): void {
+    if (this.heldActions.has(action)) return;
+
+    const wasDown = this.isDown(action);
+    this.heldActions.add(action);
+    if (!wasDown) this.emit(this.pressedListeners, action);
+    this.notifyChange();
+  }
+
+  /**
+   * Let go of an action held with `pressAction`
+   */
+  releaseAction(action: InputAction): void {
+    if (!this.heldActions.delete(action)) return;
+
+    if (!this.isDown(action)) this.emit(this.releasedListeners, action);
+    this.notifyChange();
+  }
+
+  /**
+   * Release every held input, e.g. when the window loses focus
+   */
+  releaseAll(): void {
+    for (const binding of [...this.held]) {
+      this.release(binding);
+    }
+    for (const action of [...this.heldActions]) {
+      this.releaseAction(action);
+    }
+  }
+
+  /**
+   * Feed pointer movement for the look axes
+   */
+  addLookDelta(x: number, y: number): void {
+    this.lookDelta.x += x;
+    this.lookDelta.y += y;
+    this.notifyChange();
+  }
+
+  /**
+   * Start listening to keyboard and mouse events
+   */
+  attach(target: Window = window): void {
+    if (this.target) return;
+    this.target = target;
+
+    target.addEventListener("keydown", this.handleKeyDown, { passive: false });
+    target.addEventListener("keyup", this.handleKeyUp);
+    target.addEventListener("mousedown", this.handleMouseDown);
+    target.addEventListener("mouseup", this.handleMouseUp);
+    target.addEventListener("mousemove", this.handleMouseMove);
+    target.addEventListener("wheel", this.handleWheel);
+    target.addEventListener("contextmenu", this.handleContextMenu);
+    target.addEventListener("blur", this.handleBlur);
+    target.document.addEventListener("visibilitychange", this.handleVisibilityChange);
+  }
+
+  /**
+   * Stop listening and release everything
+   */
+  detach(): void {
+    const target = this.target;
+    if (!target) return;
+
+    target.removeEventListener("keydown", this.handleKeyDown);
+    target.removeEventListener("keyup", this.handleKeyUp);
+    target.removeEventListener("mousedown", this.handleMouseDown);
+    target.removeEventListener("mouseup", this.handleMouseUp);
+    target.removeEventListener("mousemove", this.handleMouseMove);
+    target.removeEventListener("wheel", this.handleWheel);
+    target.removeEventListener("contextmenu", this.handleContextMenu);
+    target.removeEventListener("blur", this.handleBlur);
+    target.document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+
+    this.target = null;
+    this.releaseAll();
+  }
+
+  /**
+   * Actions in the active context that use a binding
+   */
+  private actionsFor(binding: Binding): InputAction[] {
+    return (Object.entries(this.bindings[this.context]) as [InputAction, Binding[]][])
+      .filter(([, bindings]) => bindings.includes(binding))
+      .map(([action]) => action);
+  }
+
+  private listen(
+    listeners: Map<InputAction, Set<ActionListener>>,
+    action: InputAction,
+    listener: ActionListener
+  ): () => void {
+    let set = listeners.get(action);
+    if (!set) {
+      set = new Set();
+      listeners.set(action, set);
+    }
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  private emit(listeners: Map<InputAction, Set<ActionListener>>, action: InputAction): void {
+    for (const listener of listeners.get(action) ?? []) {
+      try {
+        listener(action);
+      } catch (error) {
+        console.error(`[Input] Error in "${action}" listener:`, error);
+      }
+    }
+  }
+
+  private notifyBindingsChange(): void {
+    this.bindingsVersion++;
+    for (const listener of this.bindingListeners) {
+      listener();
+    }
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    // Skip if we're typing in an input field
+    if (isTextInput(event.target)) return;
+
+    if (PREVENT_DEFAULT.has(event.code) && this.context !== "menu") {
+      event.preventDefault();
+    }
+    this.press(event.code);
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    this.release(event.code);
+  };
+
+  private handleMouseDown = (event: MouseEvent): void => {
+    this.press(`Mouse${event.button}`);
+  };
+
+  private handleMouseUp = (event: MouseEvent): void => {
+    this.release(`Mouse${event.button}`);
+  };
+
+  private handleMouseMove = (event: MouseEvent): void => {
+    this.addLookDelta(event.movementX, event.movementY);
+  };
+
+  private handleWheel = (event: WheelEvent): void => {
+    if (event.deltaY === 0) return;
+
+    const binding = event.deltaY < 0 ? "WheelUp" : "WheelDown";
+    this.press(binding);
+    this.release(binding);
+  };
+
+  private handleContextMenu = (event: MouseEvent): void => {
+    // Right mouse is a game button, not a menu
+    if (this.context !== "menu") event.preventDefault();
+  };
+
+  // Keys released while the window is unfocused or hidden never send keyup
+  private handleBlur = (): void => {
+    this.releaseAll();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (this.target?.document.hidden) this.releaseAll();
+  };
+}
+
+/**
+ * Human readable name of a binding, e.g. "KeyW" -> "W", "Mouse0" -> "Left Click"
+ */
+export function formatBinding(binding: Binding): string {
+  const names: Record<string, string> = {
+    Mouse0: "Left Click",
+    Mouse1: "Middle Click",
+    Mouse2: "Right Click",
+    WheelUp: "Wheel Up",
+    WheelDown: "Wheel Down",
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    ControlLeft: "Ctrl",
+    ControlRight: "Right Ctrl",
+    ShiftLeft: "Shift",
+    ShiftRight: "Right Shift",
+    AltLeft: "Alt",
+    AltRight: "Right Alt",
+    Escape: "Esc",
+  };
+  if (names[binding]) return names[binding];
+
+  const padButton = /^Pad(\d+)$/.exec(binding);
+  if (padButton) {
+    return GAMEPAD_BUTTON_NAMES[Number(padButton[1])] ?? `Pad ${padButton[1]}`;
+  }
+
+  return binding
+    .replace(/^Key/, "")
+    .replace(/^Digit/, "")
+    .replace(/^Numpad/, "Num ")
+    .replace(/^Mouse(\d+)$/, "Mouse $1");
+}
+
+/**
+ * Check if a binding is a gamepad button
+ */
+export function isGamepadBinding(binding: Binding): boolean {
+  return /^Pad\d+$/.test(binding);
+}
+
+// Buttons of the standard gamepad mapping, by index (Xbox names)
+const GAMEPAD_BUTTON_NAMES = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "View",
+  "Menu",
+  "LS",
+  "RS",
+  "D-Pad Up",
+  "D-Pad Down",
+  "D-Pad Left",
+  "D-Pad Right",
+  "Home",
+];
+
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+}
+
+// Shared action map for the whole game
+export const inputActions = new ActionMap();
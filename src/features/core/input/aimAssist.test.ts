@@ -0,0 +1,47 @@
+import { Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+import { getAimAssistFactor } from "./aimAssist";
+
+// Looking down -Z from eye height, targets stand on the ground
+const ORIGIN = new Vector3(0, 1, 0);
+const FORWARD = new Vector3(0, 0, -1);
+const OPTIONS = { strength: 0.5, angle: 0.1, range: 50 };
+
+// A target at `distance` ahead, `offAngle` radians to the right of the crosshair
+function targetAt(distance: number, offAngle = 0) {
+  return {
+    position: { x: Math.sin(offAngle) * distance, y: 0, z: -Math.cos(offAngle) * distance },
+  };
+}
+
+describe("getAimAssistFactor", () => {
+  it("is 1 without targets near the crosshair", () => {
+    expect(getAimAssistFactor(ORIGIN, FORWARD, [], OPTIONS)).toBe(1);
+    expect(getAimAssistFactor(ORIGIN, FORWARD, [targetAt(10, 0.2)], OPTIONS)).toBe(1);
+  });
+
+  it("slows down by the full strength right on a target", () => {
+    expect(getAimAssistFactor(ORIGIN, FORWARD, [targetAt(10)], OPTIONS)).toBeCloseTo(0.5, 6);
+  });
+
+  it("fades out towards the edge of the angle", () => {
+    const factor = getAimAssistFactor(ORIGIN, FORWARD, [targetAt(10, 0.05)], OPTIONS);
+
+    expect(factor).toBeCloseTo(1 - 0.5 * 0.5, 3);
+  });
+
+  it("uses the closest target to the crosshair", () => {
+    const targets = [targetAt(10, 0.08), targetAt(20, 0.02), targetAt(5, 0.3)];
+
+    expect(getAimAssistFactor(ORIGIN, FORWARD, targets, OPTIONS)).toBeCloseTo(
+      1 - 0.5 * 0.8,
+      3
+    );
+  });
+
+  it("ignores targets out of range or behind the player", () => {
+    const targets = [targetAt(60), { position: { x: 0, y: 0, z: 10 } }];
+
+    expect(getAimAssistFactor(ORIGIN, FORWARD, targets, OPTIONS)).toBe(1);
+  });
+});
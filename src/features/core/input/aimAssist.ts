@@ -0,0 +1,51 @@
+import { Vector3 } from "three";
+
+export interface AimAssistTarget {
+  position: { x: number; y: number; z: number };
+}
+
+export interface AimAssistOptions {
+  // How much look speed drops with the crosshair right on a target (0 to 1)
+  strength: number;
+  // Angle from a target, in radians, at which the slowdown starts
+  angle?: number;
+  // Targets further away than this are ignored
+  range?: number;
+  // Added to target positions, which are usually at the feet
+  targetOffsetY?: number;
+}
+
+const toTarget = new Vector3();
+
+/**
+ * Look speed multiplier for gamepad aim assist
+ *
+ * Returns 1 when no target is near the crosshair and drops towards
+ * `1 - strength` as the crosshair closes in on one, so the stick "sticks"
+ * to targets without ever moving the view by itself.
+ */
+export function getAimAssistFactor(
+  origin: Vector3,
+  direction: Vector3,
+  targets: readonly AimAssistTarget[],
+  { strength, angle = 0.12, range = 60, targetOffsetY = 1 }: AimAssistOptions
+): number {
+  let factor = 1;
+
+  for (const target of targets) {
+    toTarget.set(
+      target.position.x - origin.x,
+      target.position.y + targetOffsetY - origin.y,
+      target.position.z - origin.z
+    );
+    const distance = toTarget.length();
+    if (distance === 0 || distance > range) continue;
+
+    const offAngle = toTarget.angleTo(direction);
+    if (offAngle >= angle) continue;
+
+    factor = Math.min(factor, 1 - strength * (1 - offAngle / angle));
+  }
+
+  return factor;
+}
@@ -0,0 +1,47 @@
+import { InputRecording, RECORDING_FORMAT_VERSION } from "./inputRecording";
+
+// Ticks per second of the demo, the GameLoop's default rate
+const RATE = 60;
+
+const at = (seconds: number) => Math.round(seconds * RATE);
+
+/**
+ * Input the main menu replays behind itself (attract mode)
+ *
+ * A short run from the spawn point: walk, jump, sprint, slide and strafe
+ * back. Made by hand rather than recorded, so it plays on any level
+ * layout and stays readable; the world isn't snapshotted, the player is
+ * put back at the spawn point every time it loops. Only the movement is
+ * replayed, the camera keeps looking where it was.
+ */
+export const ATTRACT_DEMO: InputRecording = {
+  version: RECORDING_FORMAT_VERSION,
+  seed: 1,
+  timeStep: 1 / RATE,
+  ticks: at(8),
+  frames: [
+    [
+      0,
+      {
+        forward: 0,
+        right: 0,
+        jump: false,
+        sprint: false,
+        slide: false,
+        shoot: false,
+        reload: false,
+        mouseDelta: [0, 0],
+      },
+    ],
+    [at(0.5), { forward: -1 }],
+    [at(1.5), { jump: true }],
+    [at(1.6), { jump: false }],
+    [at(2.5), { sprint: true }],
+    [at(3.5), { slide: true }],
+    [at(4.2), { slide: false, sprint: false, forward: 0, right: 1 }],
+    [at(5.2), { jump: true }],
+    [at(5.3), { jump: false }],
+    [at(6), { right: -1, forward: 1 }],
+    [at(7.5), { right: 0, forward: 0 }],
+  ],
+};
@@ -0,0 +1,116 @@
+import {
+  ACTION_LABELS,
+  ActionMap,
+  BindingMap,
+  DEFAULT_BINDINGS,
+  INPUT_CONTEXTS,
+  InputAction,
+  InputContext,
+  inputActions,
+} from "./actions";
+
+const STORAGE_KEY = "fps3d.inputBindings";
+
+// Bump when the saved format changes
+const BINDINGS_FORMAT_VERSION = 1;
+
+interface SavedBindings {
+  version: number;
+  bindings: Partial<Record<InputContext, BindingMap>>;
+}
+
+/**
+ * Serialize the current bindings as JSON, e.g. to share a layout
+ */
+export function exportBindings(map: ActionMap = inputActions): string {
+  const saved: SavedBindings = {
+    version: BINDINGS_FORMAT_VERSION,
+    bindings: map.getAllBindings(),
+  };
+  return JSON.stringify(saved, null, 2);
+}
+
+/**
+ * Apply bindings exported with `exportBindings`
+ *
+ * Contexts and actions missing from the JSON keep their defaults. Throws a
+ * descriptive error when the JSON isn't a valid bindings export.
+ */
+export function importBindings(json: string, map: ActionMap = inputActions): void {
+  let saved: unknown;
+  try {
+    saved = JSON.parse(json);
+  } catch {
+    throw new Error("[Input] Bindings are not valid JSON");
+  }
+
+  map.setAllBindings(parseBindings(saved));
+}
+
+/**
+ * Restore bindings saved by a previous session, if any
+ */
+export function loadSavedBindings(map: ActionMap = inputActions): void {
+  const json = localStorage.getItem(STORAGE_KEY);
+  if (!json) return;
+
+  try {
+    importBindings(json, map);
+  } catch (error) {
+    // A broken save shouldn't leave the player without controls
+    console.warn("[Input] Ignoring saved bindings:", (error as Error).message);
+  }
+}
+
+/**
+ * Save bindings to localStorage whenever they change
+ *
+ * Returns a function that stops saving.
+ */
+export function persistBindings(map: ActionMap = inputActions): () => void {
+  return map.onBindingsChange(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, exportBindings(map));
+    } catch (error) {
+      console.warn("[Input] Could not save bindings:", error);
+    }
+  });
+}
+
+/**
+ * Validate a parsed export and merge it onto the defaults
+ */
+function parseBindings(saved: unknown): Record<InputContext, BindingMap> {
+  if (typeof saved !== "object" || saved === null) {
+    throw new Error("[Input] Bindings must be an object");
+  }
+
+  const { version, bindings } = saved as Partial<SavedBindings>;
+  if (version !== BINDINGS_FORMAT_VERSION) {
+    throw new Error(
+      `[Input] Unsupported bindings version ${version}, expected ${BINDINGS_FORMAT_VERSION}`
+    );
+  }
+  if (typeof bindings !== "object" || bindings === null) {
+    throw new Error("[Input] Bindings export is missing its bindings");
+  }
+
+  const result = structuredClone(DEFAULT_BINDINGS);
+  for (const [context, actions] of Object.entries(bindings)) {
+    if (!INPUT_CONTEXTS.includes(context as InputContext)) {
+      throw new Error(`[Input] Unknown input context "${context}"`);
+    }
+
+    for (const [action, list] of Object.entries(actions ?? {})) {
+      if (!(action in ACTION_LABELS)) {
+        throw new Error(`[Input] Unknown action "${action}" in ${context}`);
+      }
+      if (!Array.isArray(list) || !list.every((b) => typeof b === "string")) {
+        throw new Error(`[Input] Bindings of "${action}" must be a list of strings`);
+      }
+      result[context as InputContext][action as InputAction] = list;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ActionMap } from "./actions";
+import { GamepadInput, StickSettings, shapeStick } from "./gamepad";
+
+// A standard pad with every button up and the sticks centered
+function createPad(index = 0) {
+  return {
+    index,
+    connected: true,
+    buttons: Array.from({ length: 17 }, () => ({ pressed: false, value: 0 })),
+    axes: [0, 0, 0, 0],
+  };
+}
+
+type StubPad = ReturnType<typeof createPad>;
+
+describe("shapeStick", () => {
+  const LINEAR: StickSettings = { deadzone: 0.2, outerDeadzone: 0.8, curve: "linear" };
+
+  it("reads as centered inside the deadzone", () => {
+    expect(shapeStick(0.1, 0.1, LINEAR)).toEqual({ x: 0, y: 0 });
+    expect(shapeStick(0, -0.2, LINEAR)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("starts from 0 at the edge of the deadzone and reaches 1 at the outer one", () => {
+    expect(shapeStick(0.2001, 0, LINEAR).x).toBeCloseTo(0, 3);
+    expect(shapeStick(0.5, 0, LINEAR).x).toBeCloseTo(0.5, 6);
+    expect(shapeStick(0.8, 0, LINEAR).x).toBeCloseTo(1, 6);
+    expect(shapeStick(1, 0, LINEAR).x).toBe(1);
+  });
+
+  it("keeps the stick's direction", () => {
+    const { x, y } = shapeStick(0.6, -0.6, LINEAR);
+
+    expect(x).toBeCloseTo(-y, 6);
+    expect(Math.hypot(x, y)).toBeCloseTo(1, 6);
+  });
+
+  it("applies the response curve after rescaling", () => {
+    const halfway = 0.5;
+
+    expect(shapeStick(halfway, 0, { ...LINEAR, curve: "quadratic" }).x).toBeCloseTo(0.25, 6);
+    expect(shapeStick(halfway, 0, { ...LINEAR, curve: "cubic" }).x).toBeCloseTo(0.125, 6);
+  });
+});
+
+describe("GamepadInput", () => {
+  let actions: ActionMap;
+  let pads: (StubPad | null)[];
+  let gamepad: GamepadInput;
+
+  beforeEach(() => {
+    actions = new ActionMap();
+    pads = [createPad()];
+    gamepad = new GamepadInput({
+      actions,
+      getGamepads: () => pads as unknown as readonly (Gamepad | null)[],
+    });
+  });
+
+  it("presses and releases Pad<n> bindings on button edges", () => {
+    const pressed: string[] = [];
+    const released: string[] = [];
+    actions.onPressed("jump", (action) => pressed.push(action));
+    actions.onReleased("jump", (action) => released.push(action));
+    const buttons: number[] = [];
+    gamepad.onButtonDown((button) => buttons.push(button));
+
+    pads[0]!.buttons[0].pressed = true;
+    gamepad.poll();
+    gamepad.poll();
+    expect(actions.isDown("jump")).toBe(true);
+    expect(pressed).toEqual(["jump"]);
+    expect(buttons).toEqual([0]);
+
+    pads[0]!.buttons[0].pressed = false;
+    gamepad.poll();
+    expect(actions.isDown("jump")).toBe(false);
+    expect(released).toEqual(["jump"]);
+  });
+
+  it("counts triggers as pressed from the threshold", () => {
+    // Right trigger fires
+    pads[0]!.buttons[7].value = 0.29;
+    gamepad.poll();
+    expect(actions.isDown("fire")).toBe(false);
+
+    pads[0]!.buttons[7].value = 0.3;
+    gamepad.poll();
+    expect(actions.isDown("fire")).toBe(true);
+
+    gamepad.setSettings({ triggerThreshold: 0.6 });
+    gamepad.poll();
+    expect(actions.isDown("fire")).toBe(false);
+  });
+
+  it("drives the move axes from the left stick and look from the right", () => {
+    pads[0]!.axes = [0, -1, 1, 0];
+    gamepad.poll();
+
+    expect(actions.getAxis("moveY")).toBe(-1);
+    expect(actions.getAxis("moveX")).toBe(0);
+    expect(gamepad.getLook()).toEqual({ x: 3.5, y: 0 });
+  });
+
+  it("releases everything when the pad disconnects", () => {
+    pads[0]!.buttons[0].pressed = true;
+    pads[0]!.axes = [1, 0, 1, 0];
+    gamepad.poll();
+    expect(gamepad.isConnected()).toBe(true);
+
+    pads[0]!.connected = false;
+    gamepad.poll();
+
+    expect(gamepad.isConnected()).toBe(false);
+    expect(actions.isDown("jump")).toBe(false);
+    expect(actions.getAxis("moveX")).toBe(0);
+    expect(gamepad.getLook()).toEqual({ x: 0, y: 0 });
+  });
+
+  it("reads the first connected pad, and the next one once it disconnects", () => {
+    pads = [null, createPad(1), createPad(2)];
+    pads[2]!.buttons[0].pressed = true;
+    gamepad.poll();
+    expect(actions.isDown("jump")).toBe(false);
+
+    pads[1]!.connected = false;
+    gamepad.poll();
+    expect(actions.isDown("jump")).toBe(true);
+  });
+});
@@ -0,0 +1,253 @@
+import { ActionMap, inputActions } from "./actions";
+
+/**
+ * How stick deflection maps to output after the deadzone
+ *
+ * "linear" is direct, "quadratic" and "cubic" give finer control near the
+ * center at the cost of a faster ramp near the edge.
+ */
+export type ResponseCurve = "linear" | "quadratic" | "cubic";
+
+export interface StickSettings {
+  // Deflection (0 to 1) below which the stick reads as centered
+  deadzone: number;
+  // Deflection above which the stick reads as fully pushed
+  outerDeadzone: number;
+  curve: ResponseCurve;
+}
+
+export interface GamepadSettings {
+  move: StickSettings;
+  look: StickSettings;
+  // Look speed at full deflection in radians per second
+  lookSensitivity: { x: number; y: number };
+  invertY: boolean;
+  // Trigger value (0 to 1) at which a trigger counts as pressed
+  triggerThreshold: number;
+  rumble: boolean;
+  aimAssist: boolean;
+  // How much aim assist slows look speed on target (0 to 1)
+  aimAssistStrength: number;
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  move: { deadzone: 0.15, outerDeadzone: 0.95, curve: "linear" },
+  look: { deadzone: 0.12, outerDeadzone: 0.95, curve: "quadratic" },
+  lookSensitivity: { x: 3.5, y: 2.5 },
+  invertY: false,
+  triggerThreshold: 0.3,
+  rumble: true,
+  aimAssist: true,
+  aimAssistStrength: 0.5,
+};
+
+export interface GamepadInputOptions {
+  actions?: ActionMap;
+  // Source of gamepads, `navigator.getGamepads` by default; tests pass a stub
+  getGamepads?: () => readonly (Gamepad | null)[];
+}
+
+// Standard mapping indices
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+
+const CURVE_EXPONENTS: Record<ResponseCurve, number> = {
+  linear: 1,
+  quadratic: 2,
+  cubic: 3,
+};
+
+/**
+ * Apply a radial deadzone and response curve to a stick
+ *
+ * Output has the stick's direction and a length from 0 to 1, rescaled so
+ * that output starts at 0 right at the edge of the deadzone.
+ */
+export function shapeStick(
+  x: number,
+  y: number,
+  settings: StickSettings
+): { x: number; y: number } {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= settings.deadzone) return { x: 0, y: 0 };
+
+  const range = Math.max(settings.outerDeadzone - settings.deadzone, 1e-6);
+  const scaled = Math.min(1, (magnitude - settings.deadzone) / range);
+  const shaped = Math.pow(scaled, CURVE_EXPONENTS[settings.curve]);
+
+  return { x: (x / magnitude) * shaped, y: (y / magnitude) * shaped };
+}
+
+/**
+ * Reads a gamepad through the Gamepad API and feeds it to an action map
+ *
+ * Buttons become "Pad<index>" bindings, so they can be rebound like keys.
+ * The left stick drives the move axes. The right stick is exposed as a look
+ * rate through `getLook`, since gamepad look is a speed rather than pointer
+ * movement. The Gamepad API has no events for button changes, so the pad is
+ * polled every animation frame while one is connected.
+ */
+export class GamepadInput {
+  private settings: GamepadSettings = structuredClone(DEFAULT_GAMEPAD_SETTINGS);
+  private actions: ActionMap;
+  private getGamepads: () => readonly (Gamepad | null)[];
+  private pressed = new Set<number>();
+  private look = { x: 0, y: 0 };
+  private gamepadIndex: number | null = null;
+  private buttonListeners = new Set<(button: number) => void>();
+  private target: Window | null = null;
+  private frame: number | null = null;
+
+  constructor(options: GamepadInputOptions = {}) {
+    this.actions = options.actions ?? inputActions;
+    this.getGamepads =
+      options.getGamepads ?? (() => navigator.getGamepads?.() ?? []);
+  }
+
+  getSettings(): GamepadSettings {
+    return structuredClone(this.settings);
+  }
+
+  /**
+   * Change settings, anything not given is kept
+   */
+  setSettings(settings: Partial<GamepadSettings>): void {
+    this.settings = { ...this.settings, ...structuredClone(settings) };
+  }
+
+  /**
+   * Check if a gamepad was found on the last poll
+   */
+  isConnected(): boolean {
+    return this.gamepadIndex !== null;
+  }
+
+  /**
+   * Right stick look rate in radians per second, after deadzone and curve
+   *
+   * Positive x turns right and positive y looks down, like pointer movement.
+   */
+  getLook(): { x: number; y: number } {
+    return { ...this.look };
+  }
+
+  /**
+   * Call `listener` with the index of every gamepad button that goes down,
+   * e.g. to capture a new binding. Returns an unsubscribe function.
+   */
+  onButtonDown(listener: (button: number) => void): () => void {
+    this.buttonListeners.add(listener);
+    return () => this.buttonListeners.delete(listener);
+  }
+
+  /**
+   * Read the gamepad and update the action map
+   */
+  poll(): void {
+    const gamepad = this.findGamepad();
+    if (!gamepad) {
+      if (this.gamepadIndex !== null) this.reset();
+      return;
+    }
+    this.gamepadIndex = gamepad.index;
+
+    gamepad.buttons.forEach((button, index) => {
+      const isTrigger = index === LEFT_TRIGGER || index === RIGHT_TRIGGER;
+      const down = isTrigger
+        ? button.value >= this.settings.triggerThreshold
+        : button.pressed;
+      if (down === this.pressed.has(index)) return;
+
+      if (down) {
+        this.pressed.add(index);
+        this.actions.press(`Pad${index}`);
+        this.buttonListeners.forEach((listener) => listener(index));
+      } else {
+        this.pressed.delete(index);
+        this.actions.release(`Pad${index}`);
+      }
+    });
+
+    const [leftX = 0, leftY = 0, rightX = 0, rightY = 0] = gamepad.axes;
+
+    // Stick up is -1, which is also forward on moveY
+    const move = shapeStick(leftX, leftY, this.settings.move);
+    this.actions.setAnalogAxis("moveX", move.x, "gamepad");
+    this.actions.setAnalogAxis("moveY", move.y, "gamepad");
+
+    const look = shapeStick(rightX, rightY, this.settings.look);
+    this.look.x = look.x * this.settings.lookSensitivity.x;
+    this.look.y =
+      look.y * this.settings.lookSensitivity.y * (this.settings.invertY ? -1 : 1);
+  }
+
+  /**
+   * Vibrate the gamepad, where supported and enabled
+   *
+   * `strength` is 0 to 1, `duration` in milliseconds.
+   */
+  rumble(strength: number, duration: number): void {
+    if (!this.settings.rumble || this.gamepadIndex === null) return;
+
+    const gamepad = this.getGamepads()[this.gamepadIndex];
+    gamepad?.vibrationActuator
+      ?.playEffect("dual-rumble", {
+        duration,
+        strongMagnitude: strength,
+        weakMagnitude: Math.min(1, strength * 1.5),
+      })
+      .catch(() => {
+        // Rumble is cosmetic, unsupported pads just stay still
+      });
+  }
+
+  /**
+   * Start polling every animation frame
+   */
+  attach(target: Window = window): void {
+    if (this.target) return;
+    this.target = target;
+
+    const tick = () => {
+      this.poll();
+      this.frame = target.requestAnimationFrame(tick);
+    };
+    this.frame = target.requestAnimationFrame(tick);
+  }
+
+  /**
+   * Stop polling and release everything the gamepad holds
+   */
+  detach(): void {
+    if (!this.target) return;
+
+    if (this.frame !== null) this.target.cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.target = null;
+    this.reset();
+  }
+
+  // The pad we already use if still there, otherwise the first connected one
+  private findGamepad(): Gamepad | null {
+    const gamepads = this.getGamepads();
+    if (this.gamepadIndex !== null && gamepads[this.gamepadIndex]?.connected) {
+      return gamepads[this.gamepadIndex];
+    }
+    return gamepads.find((gamepad) => gamepad?.connected) ?? null;
+  }
+
+  private reset(): void {
+    for (const index of this.pressed) {
+      this.actions.release(`Pad${index}`);
+    }
+    this.pressed.clear();
+    this.actions.setAnalogAxis("moveX", 0, "gamepad");
+    this.actions.setAnalogAxis("moveY", 0, "gamepad");
+    this.look.x = 0;
+    this.look.y = 0;
+    this.gamepadIndex = null;
+  }
+}
+
+// Shared gamepad reader for the whole game
+export const gamepadInput = new GamepadInput();
@@ -0,0 +1,277 @@
+import { WorldSnapshot } from "../ecs/serialization";
+import {
+  InputFrame,
+  addInputTap,
+  applyInputFrame,
+  captureInputFrame,
+  suspendLiveInput,
+} from "../ecs/systems/inputSystem";
+
+// Bump when the recording format changes
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * Input of a session, tick by tick
+ *
+ * Only changes are stored: each frame holds the fields that differ from the
+ * tick before, and the first frame holds everything. Replaying needs the
+ * same seed (and starting world, if the recording has no snapshot) to
+ * reproduce the session exactly.
+ *
+ * What replays exactly is the ECS simulation, which runs on the fixed tick,
+ * e.g. in a `HeadlessSimulation` given the recording. The browser game's
+ * Rapier player, camera look, enemies and weapons run outside that tick and
+ * aren't reproduced: there a replay only walks the player with the recorded
+ * movement buttons, which is what the menu's attract demo needs.
+ */
+export interface InputRecording {
+  version: number;
+  seed: number;
+  // Fixed step of the loop that recorded it, in seconds
+  timeStep: number;
+  // Length in ticks
+  ticks: number;
+  frames: [tick: number, changes: InputFrame][];
+  // World (and RNG) state at tick 0, for recordings started mid-session
+  snapshot?: WorldSnapshot;
+}
+
+export interface InputRecorderOptions {
+  seed: number;
+  timeStep: number;
+  snapshot?: WorldSnapshot;
+}
+
+export interface InputPlaybackOptions {
+  // Called after the last tick, e.g. to start over for attract mode
+  onFinish?: () => void;
+  // Called whenever playback stops, finished or not
+  onStop?: () => void;
+}
+
+const FRAME_FIELDS = [
+  "forward",
+  "right",
+  "jump",
+  "sprint",
+  "slide",
+  "shoot",
+  "reload",
+] as const;
+
+// Fields of `next` that differ from `previous`, or null if none do
+function diffFrames(
+  previous: Required<InputFrame> | null,
+  next: Required<InputFrame>
+): InputFrame | null {
+  if (!previous) return { ...next, mouseDelta: [...next.mouseDelta] };
+
+  const changes: InputFrame = {};
+  let changed = false;
+
+  for (const field of FRAME_FIELDS) {
+    if (previous[field] !== next[field]) {
+      Object.assign(changes, { [field]: next[field] });
+      changed = true;
+    }
+  }
+  if (
+    previous.mouseDelta[0] !== next.mouseDelta[0] ||
+    previous.mouseDelta[1] !== next.mouseDelta[1]
+  ) {
+    changes.mouseDelta = [...next.mouseDelta];
+    changed = true;
+  }
+
+  return changed ? changes : null;
+}
+
+/**
+ * Records the input the ECS systems see, once per fixed tick
+ *
+ *   const recorder = new InputRecorder({ seed: ecs.random.getSeed(), timeStep: loop.getTimeStep() });
+ *   recorder.start();
+ *   // ...play...
+ *   const recording = recorder.stop();
+ */
+export class InputRecorder {
+  private frames: [number, InputFrame][] = [];
+  private previous: Required<InputFrame> | null = null;
+  private tick: number = 0;
+  private removeTap: (() => void) | null = null;
+
+  constructor(private options: InputRecorderOptions) {}
+
+  /**
+   * Start (or continue) recording from the next tick
+   */
+  start(): void {
+    if (this.removeTap) return;
+    this.removeTap = addInputTap(() => this.capture());
+  }
+
+  /**
+   * Stop recording and get what was recorded
+   */
+  stop(): InputRecording {
+    this.removeTap?.();
+    this.removeTap = null;
+    return this.getRecording();
+  }
+
+  isRecording(): boolean {
+    return this.removeTap !== null;
+  }
+
+  /**
+   * Everything recorded so far
+   */
+  getRecording(): InputRecording {
+    return {
+      version: RECORDING_FORMAT_VERSION,
+      seed: this.options.seed,
+      timeStep: this.options.timeStep,
+      ticks: this.tick,
+      frames: this.frames.map(([tick, changes]) => [tick, { ...changes }]),
+      ...(this.options.snapshot ? { snapshot: this.options.snapshot } : {}),
+    };
+  }
+
+  private capture(): void {
+    const frame = captureInputFrame();
+    const changes = diffFrames(this.previous, frame);
+    if (changes) {
+      this.frames.push([this.tick, changes]);
+    }
+    this.previous = frame;
+    this.tick++;
+  }
+}
+
+/**
+ * Replays a recording into the ECS input, once per fixed tick
+ *
+ * See `InputRecording` for what that reproduces.
+ *
+ * Live keyboard, mouse and gamepad input is kept out of inputState until
+ * the replay stops, and the full recorded state is written every tick, so
+ * nothing leaks into the replay. Restoring the recording's
+ * seed or snapshot is up to the caller, see `useGameStore.playInputRecording`.
+ */
+export class InputPlayback {
+  private tick: number = 0;
+  private nextFrame: number = 0;
+  private current: InputFrame = {};
+  private removeTap: (() => void) | null = null;
+  private resumeLiveInput: (() => void) | null = null;
+
+  constructor(
+    private recording: InputRecording,
+    private options: InputPlaybackOptions = {}
+  ) {}
+
+  /**
+   * Start replaying from the first tick
+   */
+  start(): void {
+    this.stop();
+    this.tick = 0;
+    this.nextFrame = 0;
+    this.current = {};
+    this.resumeLiveInput = suspendLiveInput();
+    this.removeTap = addInputTap(() => this.apply());
+  }
+
+  /**
+   * Stop replaying and hand inputState back to live input
+   */
+  stop(): void {
+    if (!this.removeTap) return;
+
+    this.removeTap();
+    this.removeTap = null;
+    this.resumeLiveInput?.();
+    this.resumeLiveInput = null;
+    this.options.onStop?.();
+  }
+
+  isPlaying(): boolean {
+    return this.removeTap !== null;
+  }
+
+  /**
+   * Ticks replayed so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  private apply(): void {
+    if (this.tick >= this.recording.ticks) {
+      this.stop();
+      this.options.onFinish?.();
+      return;
+    }
+
+    const { frames } = this.recording;
+    while (this.nextFrame < frames.length && frames[this.nextFrame][0] <= this.tick) {
+      Object.assign(this.current, frames[this.nextFrame][1]);
+      this.nextFrame++;
+    }
+
+    applyInputFrame(this.current);
+    this.tick++;
+  }
+}
+
+/**
+ * Serialize a recording, e.g. to attach it to a bug report
+ */
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse a recording made by `serializeRecording`
+ *
+ * Throws a descriptive error when the JSON isn't a valid recording.
+ */
+export function parseRecording(json: string): InputRecording {
+  let recording: unknown;
+  try {
+    recording = JSON.parse(json);
+  } catch {
+    throw new Error("[Input] Recording is not valid JSON");
+  }
+
+  if (typeof recording !== "object" || recording === null) {
+    throw new Error("[Input] Recording must be an object");
+  }
+  const { version, seed, timeStep, ticks, frames } = recording as Partial<InputRecording>;
+
+  if (version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(
+      `[Input] Unsupported recording version ${version}, expected ${RECORDING_FORMAT_VERSION}`
+    );
+  }
+  if (typeof seed !== "number" || typeof ticks !== "number") {
+    throw new Error("[Input] Recording is missing its seed or length");
+  }
+  if (typeof timeStep !== "number" || !(timeStep > 0)) {
+    throw new Error("[Input] Recording has an invalid time step");
+  }
+  if (
+    !Array.isArray(frames) ||
+    !frames.every(
+      (frame) =>
+        Array.isArray(frame) &&
+        typeof frame[0] === "number" &&
+        typeof frame[1] === "object" &&
+        frame[1] !== null
+    )
+  ) {
+    throw new Error("[Input] Recording frames must be [tick, input] pairs");
+  }
+
+  return recording as InputRecording;
+}
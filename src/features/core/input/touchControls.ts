@@ -0,0 +1,163 @@
+import { ActionMap, InputAction, inputActions } from "./actions";
+
+/**
+ * Actions that get an on-screen button
+ */
+export type TouchButton = "fire" | "jump" | "reload" | "weaponNext";
+
+export const TOUCH_BUTTONS: readonly TouchButton[] = [
+  "fire",
+  "jump",
+  "reload",
+  "weaponNext",
+];
+
+/**
+ * Where an on-screen control sits. `x` and `y` are the center as a fraction
+ * of the screen (0 to 1) so the layout survives rotation, `size` is the
+ * diameter in CSS pixels.
+ */
+export interface TouchPlacement {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface TouchLayout {
+  stick: TouchPlacement;
+  buttons: Record<TouchButton, TouchPlacement>;
+  // 0 to 1
+  opacity: number;
+  // Radians of turn per pixel dragged on the look area
+  lookSensitivity: number;
+}
+
+export const DEFAULT_TOUCH_LAYOUT: TouchLayout = {
+  stick: { x: 0.15, y: 0.75, size: 140 },
+  buttons: {
+    fire: { x: 0.88, y: 0.7, size: 84 },
+    jump: { x: 0.76, y: 0.85, size: 64 },
+    reload: { x: 0.74, y: 0.62, size: 52 },
+    weaponNext: { x: 0.9, y: 0.45, size: 52 },
+  },
+  opacity: 0.5,
+  lookSensitivity: 0.005,
+};
+
+// localStorage is per device and browser, which is what a layout should be
+const STORAGE_KEY = "fps3d.touchLayout";
+
+/**
+ * Check if the device has a touch screen as its main pointer
+ */
+export function isTouchDevice(): boolean {
+  return typeof window !== "undefined" && window.matchMedia("(pointer: coarse)").matches;
+}
+
+/**
+ * Layout saved on this device, or the default one
+ */
+export function loadTouchLayout(): TouchLayout {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return structuredClone(DEFAULT_TOUCH_LAYOUT);
+
+    // Merge so controls added after the layout was saved get their defaults
+    const saved = JSON.parse(json) as Partial<TouchLayout>;
+    return {
+      ...structuredClone(DEFAULT_TOUCH_LAYOUT),
+      ...saved,
+      buttons: { ...DEFAULT_TOUCH_LAYOUT.buttons, ...saved.buttons },
+    };
+  } catch (error) {
+    console.warn("[Input] Ignoring saved touch layout:", error);
+    return structuredClone(DEFAULT_TOUCH_LAYOUT);
+  }
+}
+
+export function saveTouchLayout(layout: TouchLayout): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+  } catch (error) {
+    console.warn("[Input] Could not save touch layout:", error);
+  }
+}
+
+/**
+ * Feeds the on-screen controls into an action map
+ *
+ * The stick drives the move axes, buttons hold their action directly and
+ * drags on the look area accumulate until the camera reads them with
+ * `consumeLook`. Every finger is tracked separately by the UI, so moving,
+ * aiming and firing at once works.
+ */
+export class TouchInput {
+  private actions: ActionMap;
+  private look = { x: 0, y: 0 };
+  private lookSensitivity: number = DEFAULT_TOUCH_LAYOUT.lookSensitivity;
+
+  constructor(actions: ActionMap = inputActions) {
+    this.actions = actions;
+  }
+
+  /**
+   * Stick deflection, -1 to 1 on both axes (up is -1, i.e. forward)
+   */
+  setStick(x: number, y: number): void {
+    this.actions.setAnalogAxis("moveX", x, "touch");
+    this.actions.setAnalogAxis("moveY", y, "touch");
+  }
+
+  pressButton(action: InputAction): void {
+    this.actions.pressAction(action);
+  }
+
+  releaseButton(action: InputAction): void {
+    this.actions.releaseAction(action);
+  }
+
+  /**
+   * Radians of turn per pixel dragged
+   */
+  setLookSensitivity(sensitivity: number): void {
+    this.lookSensitivity = sensitivity;
+  }
+
+  /**
+   * Add a drag on the look area, in pixels
+   */
+  addLook(dx: number, dy: number): void {
+    this.look.x += dx;
+    this.look.y += dy;
+  }
+
+  /**
+   * Read and reset the accumulated look drag, in radians
+   *
+   * Positive x turns right and positive y looks down, like pointer movement.
+   */
+  consumeLook(): { x: number; y: number } {
+    const look = {
+      x: this.look.x * this.lookSensitivity,
+      y: this.look.y * this.lookSensitivity,
+    };
+    this.look.x = 0;
+    this.look.y = 0;
+    return look;
+  }
+
+  /**
+   * Center the stick, release every button and drop pending look
+   */
+  reset(): void {
+    this.setStick(0, 0);
+    for (const action of TOUCH_BUTTONS) {
+      this.actions.releaseAction(action);
+    }
+    this.look.x = 0;
+    this.look.y = 0;
+  }
+}
+
+// Shared touch input for the whole game
+export const touchInput = new TouchInput();
@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from "react";
+import {
+  InputAction,
+  InputContext,
+  formatBinding,
+  inputActions,
+} from "./actions";
+
+const subscribe = (listener: () => void) => inputActions.onBindingsChange(listener);
+const getVersion = () => inputActions.getBindingsVersion();
+
+/**
+ * Re-render when bindings change and get a label for an action's bindings
+ *
+ *   const label = useBindingLabel();
+ *   <p>{label("reload")} - Reload</p>  // "R - Reload"
+ */
+export function useBindingLabel(): (
+  action: InputAction,
+  context?: InputContext
+) => string {
+  // Subscribing is what matters, the version itself isn't needed
+  useSyncExternalStore(subscribe, getVersion);
+
+  return (action: InputAction, context: InputContext = "gameplay") => {
+    const bindings = inputActions.getBindings(action, context);
+    return bindings.length > 0 ? bindings.map(formatBinding).join(" / ") : "Unbound";
+  };
+}
+
+/**
+ * Primary binding of each move direction, e.g. "W A S D"
+ */
+export function moveKeysLabel(label: ReturnType<typeof useBindingLabel>): string {
+  return (["moveForward", "moveLeft", "moveBackward", "moveRight"] as const)
+    .map((action) => label(action).split(" / ")[0])
+    .join(" ");
+}
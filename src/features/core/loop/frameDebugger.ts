@@ -0,0 +1,188 @@
+import { ECS } from "../ecs/ecs";
+import { WorldSnapshot } from "../ecs/serialization";
+import { GameLoop } from "./gameLoop";
+
+// Speeds the debugger cycles through
+export const DEBUG_SPEEDS = [0.25, 0.5, 1, 2] as const;
+
+export interface FrameDebuggerOptions {
+  // How far back rewinding can go, in seconds of game time
+  historySeconds?: number;
+}
+
+export interface FrameDebuggerStatus {
+  paused: boolean;
+  speed: number;
+  tick: number; // Tick the world currently shows
+  latestTick: number; // Newest recorded tick
+  historyTicks: number; // Ticks that can be rewound to
+}
+
+interface HistoryEntry {
+  tick: number;
+  elapsedTime: number;
+  snapshot: WorldSnapshot;
+}
+
+/**
+ * Dev-mode controller for stepping and rewinding the game loop
+ *
+ * Records a world snapshot after every game tick into a ring buffer. While
+ * paused, the world can be stepped forward tick by tick or scrubbed back
+ * through the buffer. Stepping forward from a rewound tick simulates a new
+ * timeline and drops the recorded ticks that came after it.
+ */
+export class FrameDebugger {
+  private loop: GameLoop;
+  private ecs: ECS;
+  private history: (HistoryEntry | undefined)[];
+  private start: number = 0; // Ring index of the oldest entry
+  private length: number = 0;
+  private cursor: number = -1; // Offset from `start` of the shown entry
+  private tick: number = 0;
+  private speed: number = 1;
+  private paused: boolean = false;
+  private unsubscribe: () => void;
+
+  constructor(loop: GameLoop, ecs: ECS, options: FrameDebuggerOptions = {}) {
+    this.loop = loop;
+    this.ecs = ecs;
+
+    const seconds = options.historySeconds ?? 5;
+    this.history = new Array(Math.max(1, Math.ceil(seconds / loop.getTimeStep())));
+
+    // Subscribed after the ECS, so each entry holds the state after the update
+    this.unsubscribe = loop.subscribe(() => this.record());
+    this.record();
+  }
+
+  /**
+   * Freeze game time
+   */
+  pause(): void {
+    this.paused = true;
+    this.loop.setTimeScale(0);
+  }
+
+  /**
+   * Continue at the current speed
+   */
+  resume(): void {
+    this.paused = false;
+    this.loop.setTimeScale(this.speed);
+  }
+
+  togglePause(): void {
+    if (this.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  /**
+   * Set the playback speed, applied immediately unless paused
+   */
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    if (!this.paused) {
+      this.loop.setTimeScale(speed);
+    }
+  }
+
+  /**
+   * Move to the next (or previous) speed in DEBUG_SPEEDS
+   */
+  cycleSpeed(direction: 1 | -1 = 1): void {
+    const index = DEBUG_SPEEDS.findIndex((speed) => speed >= this.speed);
+    const next = Math.min(
+      Math.max((index === -1 ? DEBUG_SPEEDS.length - 1 : index) + direction, 0),
+      DEBUG_SPEEDS.length - 1
+    );
+    this.setSpeed(DEBUG_SPEEDS[next]);
+  }
+
+  /**
+   * Pause and advance exactly `ticks` game ticks
+   */
+  step(ticks: number = 1): void {
+    this.pause();
+    this.loop.stepTicks(ticks);
+  }
+
+  /**
+   * Pause and go back `ticks` recorded ticks (as far as the buffer allows)
+   */
+  rewind(ticks: number = 1): void {
+    this.pause();
+    this.seek(Math.max(this.cursor - ticks, 0));
+  }
+
+  /**
+   * Pause and go back a number of seconds of game time
+   */
+  rewindSeconds(seconds: number): void {
+    this.rewind(Math.round(seconds / this.loop.getTimeStep()));
+  }
+
+  /**
+   * Time scale the debugger wants: 0 while paused, otherwise its speed
+   */
+  getTimeScale(): number {
+    return this.paused ? 0 : this.speed;
+  }
+
+  getStatus(): FrameDebuggerStatus {
+    return {
+      paused: this.paused,
+      speed: this.speed,
+      tick: this.entryAt(this.cursor)?.tick ?? 0,
+      latestTick: this.entryAt(this.length - 1)?.tick ?? 0,
+      historyTicks: this.length,
+    };
+  }
+
+  /**
+   * Stop recording and return to normal speed
+   */
+  dispose(): void {
+    this.unsubscribe();
+    this.loop.setTimeScale(1);
+  }
+
+  /**
+   * Snapshot the world after a tick, discarding any rewound-over future
+   */
+  private record(): void {
+    this.length = this.cursor + 1;
+
+    if (this.length === this.history.length) {
+      // Buffer full, overwrite the oldest entry
+      this.start = (this.start + 1) % this.history.length;
+      this.length--;
+    }
+
+    this.history[(this.start + this.length) % this.history.length] = {
+      tick: this.tick++,
+      elapsedTime: this.loop.getElapsedTime(),
+      snapshot: this.ecs.snapshot(),
+    };
+    this.length++;
+    this.cursor = this.length - 1;
+  }
+
+  private seek(offset: number): void {
+    const entry = this.entryAt(offset);
+    if (!entry || offset === this.cursor) return;
+
+    this.ecs.restore(entry.snapshot, { remapIds: false });
+    this.loop.setElapsedTime(entry.elapsedTime);
+    this.cursor = offset;
+    this.tick = entry.tick + 1;
+  }
+
+  private entryAt(offset: number): HistoryEntry | undefined {
+    if (offset < 0 || offset >= this.length) return undefined;
+    return this.history[(this.start + offset) % this.history.length];
+  }
+}
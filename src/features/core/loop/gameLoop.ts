@@ -2,6 +2,7 @@ import { ECS } from "../ecs/ecs";
 import { inputSystem } from "../ecs/systems/inputSystem";
 import { playerMovementSystem } from "../ecs/systems/playerMovement";
 import { physicsSystem } from "../ecs/systems/physicsSystem";
+import { transformHierarchySystem } from "../ecs/systems/transformHierarchy";
 import { PlayerEntity } from "../ecs/types";
 
 // Create a singleton instance of the ECS
@@ -11,10 +12,11 @@ const ecs = new ECS();
  * Initialize the game systems and register default entities
  */
 export function initializeGame(): ECS {
-  // Register systems in the order they should execute
+  // Register systems, execution order is resolved from their phases and dependencies
   ecs.registerSystem(inputSystem);
   ecs.registerSystem(playerMovementSystem);
   ecs.registerSystem(physicsSystem);
+  ecs.registerSystem(transformHierarchySystem);
 
   // Create a player entity
   createDefaultPlayer();
@@ -50,29 +52,7 @@ export function shutdownGame(): void {
  * Create the default player entity
  */
 function createDefaultPlayer(): PlayerEntity {
-  const player = ecs.createEntity({
-    transform: {
-      position: [0, 1, 0],
-      rotation: [0, 0, 0],
-      scale: [1, 1, 1],
-    },
-    physics: {
-      velocity: [0, 0, 0],
-      mass: 1,
-      collider: "box",
-      static: false,
-    },
-    player: {
-      health: 100,
-      speed: 5,
-      jumpForce: 5,
-      isJumping: false,
-      weapons: [],
-      currentWeapon: "",
-    },
-  }) as PlayerEntity;
-
-  return player;
+  return ecs.spawn("player") as PlayerEntity;
 }
 
 /**
@@ -80,57 +60,74 @@ function createDefaultPlayer(): PlayerEntity {
  */
 function createDefaultLevel(): void {
   // Create floor
-  ecs.createEntity({
+  ecs.spawn("staticProp", {
     transform: {
       position: [0, -0.5, 0],
-      rotation: [0, 0, 0],
       scale: [50, 1, 50],
     },
-    physics: {
-      velocity: [0, 0, 0],
-      mass: 0,
-      collider: "box",
-      static: true,
-    },
   });
 
-  // Create some walls/obstacles
+  // Create some walls/obstacles, laid out from the seed so every run matches
+  const random = ecs.random.stream("level");
   for (let i = 0; i < 10; i++) {
-    const x = Math.random() * 20 - 10;
-    const z = Math.random() * 20 - 10;
+    const x = random.float(-10, 10);
+    const z = random.float(-10, 10);
 
     if (Math.abs(x) < 2 && Math.abs(z) < 2) continue; // Don't place obstacles too close to player
 
-    ecs.createEntity({
+    ecs.spawn("crate", {
       transform: {
         position: [x, 1, z],
-        rotation: [0, Math.random() * Math.PI * 2, 0],
+        rotation: [0, random.float(0, Math.PI * 2), 0],
         scale: [1, 2, 1],
       },
-      physics: {
-        velocity: [0, 0, 0],
-        mass: 0,
-        collider: "box",
-        static: true,
-      },
     });
   }
 }
 
+/**
+ * Clock a subscriber runs on
+ *
+ * - "game": scaled by `timeScale`, stops while paused (gameplay, physics)
+ * - "real": unscaled wall-clock time, keeps running while paused (UI)
+ */
+export type TimeDomain = "game" | "real";
+
+export type LoopSubscriber = (delta: number, elapsedTime: number) => void;
+
+// Called once per rendered frame with each domain's interpolation alpha
+export type RenderSubscriber = (alpha: number, frameDelta: number) => void;
+
+/**
+ * Fixed-step clock for one time domain
+ */
+class DomainClock {
+  accumulatedTime: number = 0; // ms not yet consumed by a fixed step
+  elapsedTime: number = 0; // seconds simulated in this domain
+  subscribers: LoopSubscriber[] = [];
+}
+
 /**
  * Game loop class to handle frame updates
+ *
+ * Subscribers run in fixed steps. The time left over after the last step is
+ * carried to the next frame and exposed as an interpolation alpha, so
+ * renderers can blend between the previous and current simulation state.
  */
 export class GameLoop {
   private rafId: number | null = null;
   private isRunning: boolean = false;
   private lastTime: number = 0;
-  private accumulatedTime: number = 0;
-  private elapsedTime: number = 0;
   private frameRate: number = 60;
   private timeStep: number = 1000 / 60; // 60 FPS default
   private maxDeltaTime: number = 250; // Maximum allowed delta time (ms)
+  private timeScale: number = 1;
 
-  private subscribers: Array<(delta: number, elapsedTime: number) => void> = [];
+  private clocks: Record<TimeDomain, DomainClock> = {
+    game: new DomainClock(),
+    real: new DomainClock(),
+  };
+  private renderSubscribers: RenderSubscriber[] = [];
 
   constructor(options?: { frameRate?: number; maxDeltaTime?: number }) {
     if (options?.frameRate) {
@@ -144,16 +141,33 @@ export class GameLoop {
   }
 
   /**
-   * Subscribe to loop updates
+   * Subscribe to fixed-step updates on a time domain (defaults to "game")
    */
   subscribe(
-    callback: (delta: number, elapsedTime: number) => void
+    callback: LoopSubscriber,
+    domain: TimeDomain = "game"
   ): () => void {
-    this.subscribers.push(callback);
+    const clock = this.clocks[domain];
+    clock.subscribers.push(callback);
 
     // Return unsubscribe function
     return () => {
-      this.subscribers = this.subscribers.filter((cb) => cb !== callback);
+      clock.subscribers = clock.subscribers.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Subscribe to rendered frames, called after the fixed steps of each frame
+   *
+   * `alpha` is the game domain's interpolation factor.
+   */
+  onRender(callback: RenderSubscriber): () => void {
+    this.renderSubscribers.push(callback);
+
+    return () => {
+      this.renderSubscribers = this.renderSubscribers.filter(
+        (cb) => cb !== callback
+      );
     };
   }
 
@@ -181,6 +195,23 @@ export class GameLoop {
     }
   }
 
+  /**
+   * Set the speed of game time, e.g. 0.25 for bullet-time or 0 to pause
+   */
+  setTimeScale(scale: number): void {
+    if (!Number.isFinite(scale) || scale < 0) {
+      throw new Error(`[GameLoop] Time scale must be >= 0, got ${scale}`);
+    }
+    this.timeScale = scale;
+  }
+
+  /**
+   * Get the speed of game time
+   */
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
   /**
    * Main loop function
    */
@@ -196,31 +227,90 @@ export class GameLoop {
       deltaTime = this.maxDeltaTime;
     }
 
-    // Accumulate time
-    this.accumulatedTime += deltaTime;
-    this.elapsedTime += deltaTime / 1000; // Convert to seconds
+    this.advance(deltaTime);
+
+    // Schedule next frame
+    this.rafId = requestAnimationFrame(this.loop);
+  };
+
+  /**
+   * Advance every time domain by a frame's worth of wall-clock time (ms)
+   */
+  private advance(deltaTime: number): void {
+    this.step(this.clocks.real, deltaTime);
+    this.step(this.clocks.game, deltaTime * this.timeScale);
+
+    const alpha = this.getAlpha();
+    for (const subscriber of this.renderSubscribers) {
+      subscriber(alpha, deltaTime / 1000);
+    }
+  }
+
+  /**
+   * Run a domain's subscribers in fixed timesteps for physics stability
+   */
+  private step(clock: DomainClock, deltaTime: number): void {
+    clock.accumulatedTime += deltaTime;
 
-    // Update in fixed timesteps for physics stability
-    while (this.accumulatedTime >= this.timeStep) {
-      const deltaSeconds = this.timeStep / 1000; // Convert to seconds
+    while (clock.accumulatedTime >= this.timeStep) {
+      this.tick(clock);
+      clock.accumulatedTime -= this.timeStep;
+    }
+  }
 
-      // Notify subscribers
-      for (const subscriber of this.subscribers) {
-        subscriber(deltaSeconds, this.elapsedTime);
-      }
+  /**
+   * Run a single fixed step of a domain
+   */
+  private tick(clock: DomainClock): void {
+    const deltaSeconds = this.timeStep / 1000; // Convert to seconds
+    clock.elapsedTime += deltaSeconds;
 
-      this.accumulatedTime -= this.timeStep;
+    // Notify subscribers
+    for (const subscriber of clock.subscribers) {
+      subscriber(deltaSeconds, clock.elapsedTime);
     }
+  }
 
-    // Schedule next frame
-    this.rafId = requestAnimationFrame(this.loop);
-  };
+  /**
+   * Run fixed steps of a domain immediately, ignoring the time scale
+   *
+   * Used to advance a paused game one tick at a time.
+   */
+  stepTicks(ticks: number = 1, domain: TimeDomain = "game"): void {
+    for (let i = 0; i < ticks; i++) {
+      this.tick(this.clocks[domain]);
+    }
+  }
+
+  /**
+   * Fraction of a fixed step accumulated since the last update, in [0, 1)
+   *
+   * Render state should be `previous + (current - previous) * alpha`.
+   */
+  getAlpha(domain: TimeDomain = "game"): number {
+    return this.clocks[domain].accumulatedTime / this.timeStep;
+  }
 
   /**
    * Get current elapsed time in seconds
    */
-  getElapsedTime(): number {
-    return this.elapsedTime;
+  getElapsedTime(domain: TimeDomain = "game"): number {
+    return this.clocks[domain].elapsedTime;
+  }
+
+  /**
+   * Move a domain's clock, e.g. when rewinding to an earlier snapshot
+   */
+  setElapsedTime(seconds: number, domain: TimeDomain = "game"): void {
+    this.clocks[domain].elapsedTime = seconds;
+    this.clocks[domain].accumulatedTime = 0;
+  }
+
+  /**
+   * Duration of one fixed step in seconds
+   */
+  getTimeStep(): number {
+    return this.timeStep / 1000;
   }
 
   /**
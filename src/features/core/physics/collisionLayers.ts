@@ -0,0 +1,99 @@
+import type { Collider, InteractionGroups } from "@dimforge/rapier3d-compat";
+import { interactionGroups } from "@react-three/rapier";
+
+/**
+ * Named collision layers, each one a Rapier collision group
+ *
+ * The index in COLLISION_LAYERS is the group number (Rapier has 16). World
+ * is group 0 on purpose: colliders without groups, like most level
+ * geometry, are in every group, so they read as world when decoded.
+ */
+export type CollisionLayer =
+  | "world"
+  | "player"
+  | "enemy"
+  | "playerProjectile"
+  | "enemyProjectile"
+  | "trigger"
+  | "pickup"
+  | "debris";
+
+export const COLLISION_LAYERS: readonly CollisionLayer[] = [
+  "world",
+  "player",
+  "enemy",
+  "playerProjectile",
+  "enemyProjectile",
+  "trigger",
+  "pickup",
+  "debris",
+];
+
+/**
+ * Which layers touch which, for contacts, sensors and queries alike
+ *
+ * Must be symmetric, checked when this module loads. Layers left out of a
+ * row pass through each other, e.g. enemy shots through enemies and other
+ * enemy shots, and hitscan through pickups.
+ */
+export const COLLISION_MATRIX: Readonly<Record<CollisionLayer, readonly CollisionLayer[]>> = {
+  world: ["player", "enemy", "playerProjectile", "enemyProjectile", "debris"],
+  player: ["world", "enemy", "enemyProjectile", "trigger", "pickup", "debris"],
+  enemy: ["world", "player", "enemy", "playerProjectile", "trigger", "debris"],
+  playerProjectile: ["world", "enemy", "debris"],
+  enemyProjectile: ["world", "player"],
+  trigger: ["player", "enemy", "debris"],
+  pickup: ["player"],
+  debris: ["world", "player", "enemy", "playerProjectile", "trigger", "debris"],
+};
+
+for (const layer of COLLISION_LAYERS) {
+  for (const other of COLLISION_MATRIX[layer]) {
+    if (!COLLISION_MATRIX[other].includes(layer)) {
+      throw new Error(
+        `[Physics] Collision matrix is not symmetric: ${layer} collides with ${other} but not the other way round`
+      );
+    }
+  }
+}
+
+/**
+ * Rapier group number of a layer
+ */
+export function layerGroup(layer: CollisionLayer): number {
+  return COLLISION_LAYERS.indexOf(layer);
+}
+
+/**
+ * Check if two layers collide according to the matrix
+ */
+export function layersCollide(a: CollisionLayer, b: CollisionLayer): boolean {
+  return COLLISION_MATRIX[a].includes(b);
+}
+
+/**
+ * Collision groups for a collider, rigid body or scene query on `layer`
+ *
+ * By default it collides with what the matrix says. `mask` narrows that
+ * down for one collider, e.g. a ground sensor that should only notice
+ * things that can be stood on. Pass the result as `collisionGroups` to a
+ * RigidBody or collider, or as the filter groups of a raycast.
+ */
+export function collisionGroups(
+  layer: CollisionLayer,
+  mask: readonly CollisionLayer[] = COLLISION_MATRIX[layer]
+): InteractionGroups {
+  return interactionGroups(layerGroup(layer), mask.map(layerGroup));
+}
+
+/**
+ * Layer a collider is on, taken from its collision groups
+ *
+ * Colliders in several groups report the first one, so untagged colliders
+ * report "world".
+ */
+export function getColliderLayer(collider: Collider): CollisionLayer {
+  const memberships = collider.collisionGroups() >>> 16;
+  const group = COLLISION_LAYERS.findIndex((_, index) => memberships & (1 << index));
+  return COLLISION_LAYERS[group] ?? "world";
+}
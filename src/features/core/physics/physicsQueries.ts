@@ -0,0 +1,330 @@
+import type RAPIER from "@dimforge/rapier3d-compat";
+import type {
+  Collider,
+  InteractionGroups,
+  QueryFilterFlags,
+  Ray,
+  RigidBody,
+  Shape,
+  World,
+} from "@dimforge/rapier3d-compat";
+import { Vector3 } from "three";
+import {
+  CollisionLayer,
+  collisionGroups,
+  getColliderLayer,
+  layerGroup,
+} from "./collisionLayers";
+
+type Rapier = typeof RAPIER;
+
+export interface VectorLike {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * What gameplay code keeps in a rigid body's userData
+ *
+ * Everything is optional; bodies only fill in what they have.
+ */
+export interface HitOwner {
+  // e.g. "player" or "enemy"
+  type?: string;
+  takeDamage?: (amount: number) => void;
+  // ECS entity this body belongs to, if any
+  entityId?: string;
+}
+
+export interface QueryOptions {
+  // Layer the query acts as, it hits what that layer collides with.
+  // Without one the query hits every layer.
+  layer?: CollisionLayer;
+  // Narrow down the layers hit, like the mask of `collisionGroups`
+  mask?: readonly CollisionLayer[];
+  // Colliders, or whole rigid bodies, to ignore, e.g. the shooter
+  exclude?: readonly (Collider | RigidBody)[];
+  // Include sensors, which queries skip by default
+  includeSensors?: boolean;
+}
+
+/**
+ * A collider found by an overlap test
+ */
+export interface OverlapHit {
+  collider: Collider;
+  layer: CollisionLayer;
+  body: RigidBody | null;
+  owner: HitOwner | null;
+}
+
+/**
+ * A collider hit by a ray or shape cast
+ */
+export interface QueryHit extends OverlapHit {
+  // World space point of contact
+  point: Vector3;
+  // Surface normal at the point, facing back along the query
+  normal: Vector3;
+  // Distance travelled along the query direction
+  distance: number;
+}
+
+/**
+ * Scene queries against the Rapier world with layer filters
+ *
+ * Every query takes the same options: the layer it acts as (see
+ * COLLISION_MATRIX), colliders or bodies to ignore and whether sensors
+ * count. Hits come back with the collider's layer and the gameplay owner
+ * from its body's userData, so callers don't need to dig through Rapier
+ * objects. Directions don't need to be normalized.
+ *
+ * In components use `usePhysicsQueries()`, which builds one for the
+ * current physics world.
+ */
+export class PhysicsQueries {
+  constructor(
+    private readonly world: World,
+    private readonly rapier: Rapier
+  ) {}
+
+  /**
+   * First collider along a ray, or null
+   */
+  raycast(
+    origin: VectorLike,
+    direction: VectorLike,
+    maxDistance: number,
+    options: QueryOptions = {}
+  ): QueryHit | null {
+    const ray = this.createRay(origin, direction);
+    const hit = this.world.castRayAndGetNormal(
+      ray,
+      maxDistance,
+      true,
+      this.filterFlags(options),
+      this.filterGroups(options),
+      undefined,
+      undefined,
+      this.filterPredicate(options)
+    );
+    if (!hit) return null;
+
+    return {
+      ...this.describe(hit.collider),
+      point: toVector3(ray.pointAt(hit.timeOfImpact)),
+      normal: toVector3(hit.normal),
+      distance: hit.timeOfImpact,
+    };
+  }
+
+  /**
+   * Every collider along a ray, nearest first
+   *
+   * For shots that go through things, e.g. to stop at the first wall but
+   * damage every enemy before it.
+   */
+  raycastAll(
+    origin: VectorLike,
+    direction: VectorLike,
+    maxDistance: number,
+    options: QueryOptions = {}
+  ): QueryHit[] {
+    const ray = this.createRay(origin, direction);
+    const hits: QueryHit[] = [];
+
+    this.world.intersectionsWithRay(
+      ray,
+      maxDistance,
+      true,
+      (hit) => {
+        hits.push({
+          ...this.describe(hit.collider),
+          point: toVector3(ray.pointAt(hit.timeOfImpact)),
+          normal: toVector3(hit.normal),
+          distance: hit.timeOfImpact,
+        });
+        return true; // Keep going
+      },
+      this.filterFlags(options),
+      this.filterGroups(options),
+      undefined,
+      undefined,
+      this.filterPredicate(options)
+    );
+
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * First collider a sphere sweeping along a direction touches, or null
+   *
+   * A thick ray, for projectiles with a size, melee swings or checking
+   * whether a character fits through a gap.
+   */
+  sphereCast(
+    origin: VectorLike,
+    radius: number,
+    direction: VectorLike,
+    maxDistance: number,
+    options: QueryOptions = {}
+  ): QueryHit | null {
+    const unit = normalize(direction);
+    const hit = this.world.castShape(
+      origin,
+      IDENTITY_ROTATION,
+      unit,
+      new this.rapier.Ball(radius),
+      0,
+      maxDistance,
+      true,
+      this.filterFlags(options),
+      this.filterGroups(options),
+      undefined,
+      undefined,
+      this.filterPredicate(options)
+    );
+    if (!hit) return null;
+
+    // The first witness and normal are on the collider hit, in world space
+    return {
+      ...this.describe(hit.collider),
+      point: toVector3(hit.witness1),
+      normal: toVector3(hit.normal1),
+      distance: hit.time_of_impact,
+    };
+  }
+
+  /**
+   * Every collider inside a sphere, e.g. for explosions or "use" prompts
+   */
+  overlapSphere(
+    center: VectorLike,
+    radius: number,
+    options: QueryOptions = {}
+  ): OverlapHit[] {
+    return this.overlap(center, new this.rapier.Ball(radius), options);
+  }
+
+  /**
+   * Every collider inside an axis aligned box, given its half extents
+   */
+  overlapBox(
+    center: VectorLike,
+    halfExtents: VectorLike,
+    options: QueryOptions = {}
+  ): OverlapHit[] {
+    return this.overlap(
+      center,
+      new this.rapier.Cuboid(halfExtents.x, halfExtents.y, halfExtents.z),
+      options
+    );
+  }
+
+  /**
+   * Check if nothing blocks the straight line between two points
+   *
+   * For AI line of sight; by default only the world blocks it.
+   */
+  hasLineOfSight(
+    from: VectorLike,
+    to: VectorLike,
+    options: QueryOptions = {}
+  ): boolean {
+    const direction = new Vector3(to.x - from.x, to.y - from.y, to.z - from.z);
+    const distance = direction.length();
+    if (distance === 0) return true;
+
+    return this.raycast(from, direction, distance, { mask: ["world"], ...options }) === null;
+  }
+
+  private overlap(
+    center: VectorLike,
+    shape: Shape,
+    options: QueryOptions
+  ): OverlapHit[] {
+    const hits: OverlapHit[] = [];
+
+    this.world.intersectionsWithShape(
+      center,
+      IDENTITY_ROTATION,
+      shape,
+      (collider) => {
+        hits.push(this.describe(collider));
+        return true; // Keep going
+      },
+      this.filterFlags(options),
+      this.filterGroups(options),
+      undefined,
+      undefined,
+      this.filterPredicate(options)
+    );
+
+    return hits;
+  }
+
+  private createRay(origin: VectorLike, direction: VectorLike): Ray {
+    return new this.rapier.Ray(origin, normalize(direction));
+  }
+
+  private describe(collider: Collider): OverlapHit {
+    const body = collider.parent();
+    return {
+      collider,
+      layer: getColliderLayer(collider),
+      body,
+      owner: (body?.userData as HitOwner | undefined) ?? null,
+    };
+  }
+
+  private filterFlags(options: QueryOptions): QueryFilterFlags | undefined {
+    return options.includeSensors
+      ? undefined
+      : this.rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+  }
+
+  private filterGroups(options: QueryOptions): InteractionGroups | undefined {
+    if (options.layer) return collisionGroups(options.layer, options.mask);
+    if (options.mask) return queryMask(options.mask);
+    return undefined;
+  }
+
+  private filterPredicate(
+    options: QueryOptions
+  ): ((collider: Collider) => boolean) | undefined {
+    if (!options.exclude?.length) return undefined;
+
+    const colliders = new Set<number>();
+    const bodies = new Set<number>();
+    for (const item of options.exclude) {
+      if (item instanceof this.rapier.RigidBody) {
+        bodies.add(item.handle);
+      } else {
+        colliders.add(item.handle);
+      }
+    }
+
+    return (collider) => {
+      if (colliders.has(collider.handle)) return false;
+      const body = collider.parent();
+      return !(body && bodies.has(body.handle));
+    };
+  }
+}
+
+const IDENTITY_ROTATION = { x: 0, y: 0, z: 0, w: 1 };
+
+function toVector3({ x, y, z }: VectorLike): Vector3 {
+  return new Vector3(x, y, z);
+}
+
+function normalize({ x, y, z }: VectorLike): Vector3 {
+  return new Vector3(x, y, z).normalize();
+}
+
+// Groups for a query that isn't any layer: in all of them, hitting `mask`
+function queryMask(mask: readonly CollisionLayer[]): InteractionGroups {
+  const filter = mask.reduce((bits, layer) => bits | (1 << layerGroup(layer)), 0);
+  return ((0xffff << 16) | filter) >>> 0;
+}
@@ -0,0 +1,15 @@
+import { useMemo } from "react";
+import { useRapier } from "@react-three/rapier";
+import { PhysicsQueries } from "./physicsQueries";
+
+/**
+ * Scene queries for the physics world of the surrounding <Physics>
+ *
+ *   const queries = usePhysicsQueries();
+ *   const hit = queries.raycast(origin, direction, 100, { layer: "playerProjectile" });
+ *   hit?.owner?.takeDamage?.(10);
+ */
+export function usePhysicsQueries(): PhysicsQueries {
+  const { world, rapier } = useRapier();
+  return useMemo(() => new PhysicsQueries(world, rapier), [world, rapier]);
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { PlayerEntity } from "../ecs/types";
+import { HeadlessSimulation, createHeadlessSimulation } from "./headlessSimulation";
+
+describe("HeadlessSimulation", () => {
+  let sim: HeadlessSimulation | null = null;
+
+  afterEach(() => {
+    sim?.dispose();
+    sim = null;
+  });
+
+  function spawnPlayer(height: number): PlayerEntity {
+    sim = createHeadlessSimulation({
+      setup: (ecs) => {
+        ecs.spawn("player", { transform: { position: [0, height, 0] } });
+      },
+    });
+    const [player] = sim.ecs.getWorld().with("player", "transform", "physics");
+    return player;
+  }
+
+  it("player falls to ground in < 1s", () => {
+    const player = spawnPlayer(3);
+
+    const elapsed = sim!.expectWithin(
+      "player lands",
+      () => player.physics.grounded === true,
+      1
+    );
+
+    expect(elapsed).toBeLessThan(1);
+    expect(player.transform.position[1]).toBeCloseTo(0, 2);
+  });
+
+  it("player walks forward while forward is held", () => {
+    const player = spawnPlayer(0);
+    sim!.stepSeconds(0.2);
+
+    const startZ = player.transform.position[2];
+    sim!.setInput({ forward: -1 });
+    sim!.stepSeconds(1);
+
+    expect(player.transform.position[2]).toBeLessThan(startZ - 1);
+  });
+
+  it("gives the same result for the same script", () => {
+    const run = () => {
+      const player = spawnPlayer(2);
+      sim!.setInput({ right: 1, jump: true });
+      sim!.stepSeconds(1.5);
+      const position = [...player.transform.position];
+      sim!.dispose();
+      sim = null;
+      return position;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
@@ -0,0 +1,204 @@
+import { ECS } from "../ecs/ecs";
+import { RandomService } from "../ecs/random";
+import { System } from "../ecs/types";
+import {
+  InputFrame,
+  applyInputFrame,
+  resetInputState,
+} from "../ecs/systems/inputSystem";
+import { GAME_SYSTEMS } from "../ecs/systems/gameSystems";
+import { InputRecording } from "../input/inputRecording";
+
+// Systems a headless run uses unless told otherwise, the same as the game's
+export const DEFAULT_SYSTEMS: readonly System[] = GAME_SYSTEMS;
+
+export type { InputFrame };
+
+/**
+ * Input change applied at the start of a given tick or time (seconds)
+ */
+export type ScriptedInput =
+  | { tick: number; input: InputFrame }
+  | { time: number; input: InputFrame };
+
+export interface HeadlessSimulationOptions {
+  // Systems to register, defaults to DEFAULT_SYSTEMS
+  systems?: readonly System[];
+  // Extra systems registered on top of `systems` (e.g. AI)
+  extraSystems?: readonly System[];
+  // Fixed step in seconds, defaults to the GameLoop's 1/60
+  timeStep?: number;
+  // RNG seed, defaults to 0. The simulation gets its own RandomService.
+  seed?: number;
+  // Build the initial world before systems are initialized
+  setup?: (ecs: ECS) => void;
+  // Timeline of input changes
+  script?: readonly ScriptedInput[];
+  // Replay a recorded session: its seed, time step, starting world (if it
+  // has one, restored after `setup`) and input replace the options above
+  recording?: InputRecording;
+}
+
+/**
+ * Runs the ECS without a browser, canvas or GPU
+ *
+ * The simulation advances in fixed ticks and never looks at wall-clock
+ * time, so the same setup and script always produce the same result.
+ * Input comes from `setInput` and the script rather than DOM events, which
+ * makes it usable from CI tests, e.g.
+ *
+ *   const sim = createHeadlessSimulation({ setup: (ecs) => ecs.spawn("player") });
+ *   const [player] = sim.ecs.getWorld().with("player", "transform");
+ *   sim.expectWithin("player lands", () => player.transform.position[1] <= 0, 1);
+ */
+export class HeadlessSimulation {
+  readonly ecs: ECS;
+  readonly timeStep: number;
+  private currentTick: number = 0;
+  private script: { tick: number; input: InputFrame }[];
+
+  constructor(options: HeadlessSimulationOptions = {}) {
+    const { recording } = options;
+
+    this.ecs = new ECS({
+      validateComponents: true,
+      random: new RandomService(recording?.seed ?? options.seed ?? 0),
+    });
+    this.timeStep = recording?.timeStep ?? options.timeStep ?? 1 / 60;
+
+    // Recorded frames are already changes per tick, just like a script
+    const script: readonly ScriptedInput[] = recording
+      ? recording.frames.map(([tick, input]) => ({ tick, input }))
+      : options.script ?? [];
+
+    // Resolve time-based entries to ticks, keeping the script in order
+    this.script = script
+      .map((entry) => ({
+        tick:
+          "tick" in entry
+            ? entry.tick
+            : Math.round(entry.time / this.timeStep),
+        input: entry.input,
+      }))
+      .sort((a, b) => a.tick - b.tick);
+
+    // inputState is shared module state, start from a clean slate
+    resetInputState();
+
+    for (const system of [
+      ...(options.systems ?? DEFAULT_SYSTEMS),
+      ...(options.extraSystems ?? []),
+    ]) {
+      this.ecs.registerSystem(system);
+    }
+
+    options.setup?.(this.ecs);
+    this.ecs.applyCommands();
+    if (recording?.snapshot) {
+      this.ecs.restore(recording.snapshot, { remapIds: false });
+    }
+    this.ecs.init();
+  }
+
+  /**
+   * Number of ticks simulated so far
+   */
+  get tick(): number {
+    return this.currentTick;
+  }
+
+  /**
+   * Simulated time in seconds
+   */
+  get time(): number {
+    return this.currentTick * this.timeStep;
+  }
+
+  /**
+   * Change the held input. Fields left out keep their current value.
+   */
+  setInput(input: InputFrame): void {
+    applyInputFrame(input);
+  }
+
+  /**
+   * Advance a number of fixed ticks
+   */
+  step(ticks: number = 1): void {
+    for (let i = 0; i < ticks; i++) {
+      while (this.script.length > 0 && this.script[0].tick <= this.currentTick) {
+        this.setInput(this.script.shift()!.input);
+      }
+
+      this.currentTick++;
+      this.ecs.update(this.timeStep, this.time);
+    }
+  }
+
+  /**
+   * Advance by (at least) the given number of seconds
+   */
+  stepSeconds(seconds: number): void {
+    this.step(Math.ceil(seconds / this.timeStep - 1e-9));
+  }
+
+  /**
+   * Step until a condition holds, checking after every tick
+   *
+   * Returns the simulated seconds it took, or null if it didn't happen
+   * within `timeout` seconds.
+   */
+  runUntil(
+    condition: (ecs: ECS) => boolean,
+    timeout: number
+  ): number | null {
+    const start = this.time;
+    const maxTicks = Math.ceil(timeout / this.timeStep - 1e-9);
+
+    if (condition(this.ecs)) return 0;
+
+    for (let i = 0; i < maxTicks; i++) {
+      this.step();
+      if (condition(this.ecs)) {
+        return this.time - start;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Like `runUntil`, but throws a descriptive error on timeout
+   */
+  expectWithin(
+    description: string,
+    condition: (ecs: ECS) => boolean,
+    timeout: number
+  ): number {
+    const elapsed = this.runUntil(condition, timeout);
+    if (elapsed === null) {
+      throw new Error(
+        `[HeadlessSimulation] Expected "${description}" within ${timeout}s, ` +
+          `still false at t=${this.time.toFixed(3)}s (tick ${this.currentTick})`
+      );
+    }
+    return elapsed;
+  }
+
+  /**
+   * Shut the ECS down and clear the shared input state
+   */
+  dispose(): void {
+    this.ecs.shutdown();
+    resetInputState();
+  }
+}
+
+/**
+ * Create a headless simulation
+ */
+export function createHeadlessSimulation(
+  options: HeadlessSimulationOptions = {}
+): HeadlessSimulation {
+  return new HeadlessSimulation(options);
+}
@@ -4,8 +4,9 @@ import { RigidBody, CuboidCollider, CapsuleCollider } from "@react-three/rapier"
 import { Vector3, Quaternion, Group } from "three";
 import { useSpring, animated } from "@react-spring/three";
 import { useGLTF } from "@react-three/drei";
+import { collisionGroups } from "../../core/physics/collisionLayers";
 import { useEnemyStore } from "../stores/enemyStore";
-import { EnemyProjectile } from "./EnemyProjectile";
+import { projectilePool } from "../../weapons/projectilePool";
 
 // Define available enemy types
 export type EnemyType = "grunt" | "soldier" | "commander";
@@ -31,6 +32,12 @@ const ENEMY_ATTACK: Record<EnemyType, { damage: number; rate: number; range: num
   commander: { damage: 25, rate: 1500, range: 20, speed: 10 },
 };
 
+const PROJECTILE_COLORS: Record<EnemyType, string> = {
+  grunt: '#ff5500',
+  soldier: '#ff0000',
+  commander: '#aa00ff',
+};
+
 export interface EnemyProps {
   type: EnemyType;
   position: [number, number, number];
@@ -64,13 +71,6 @@ export function Enemy({ type, position, onDeath }: EnemyProps) {
   const [animationState, setAnimationState] = useState<"idle" | "walking" | "attacking" | "hit" | "dying">("idle");
   const [removed, setRemoved] = useState(false);
   
-  // Projectile management
-  const [projectiles, setProjectiles] = useState<{
-    id: string;
-    position: [number, number, number];
-    direction: Vector3;
-  }[]>([]);
-  
   // Spring animations for smooth movement and hit reactions
   const [springs, api] = useSpring(() => ({
     position: position,
@@ -240,12 +240,13 @@ export function Enemy({ type, position, onDeath }: EnemyProps) {
       direction.z * attackProps.speed
     ];
     
-    // Spawn projectile through enemy store
-    enemyStore.addProjectile({
+    // Spawn projectile from the shared pool
+    projectilePool.spawn({
       position: [projectileStart.x, projectileStart.y, projectileStart.z],
       velocity: velocity,
       damage: attackProps.damage,
-      type: type
+      layer: "enemyProjectile",
+      color: PROJECTILE_COLORS[type]
     });
     
     // Reset attack animation after delay
@@ -256,11 +257,6 @@ export function Enemy({ type, position, onDeath }: EnemyProps) {
     }, 500);
   };
   
-  // Handle projectile hit
-  const handleProjectileHit = (id: string) => {
-    setProjectiles(prev => prev.filter(proj => proj.id !== id));
-  };
-  
   const enemyStore = useEnemyStore();
 
   // Register with enemy store on mount
@@ -339,6 +335,7 @@ export function Enemy({ type, position, onDeath }: EnemyProps) {
         lockRotations
         enabledRotations={[false, false, false]}
         userData={{ type: "enemy", takeDamage, damage: type === 'commander' ? 20 : 10 }}
+        collisionGroups={collisionGroups("enemy")}
         onCollisionEnter={handleCollision}
         friction={0.5}
       >
@@ -411,18 +408,6 @@ export function Enemy({ type, position, onDeath }: EnemyProps) {
           </group>
         </group>
       </RigidBody>
-      
-      {/* Render projectiles */}
-      {projectiles.map(projectile => (
-        <EnemyProjectile
-          key={projectile.id}
-          position={projectile.position}
-          direction={projectile.direction}
-          speed={ENEMY_ATTACK[type].speed}
-          damage={ENEMY_ATTACK[type].damage}
-          onHit={() => handleProjectileHit(projectile.id)}
-        />
-      ))}
     </group>
   );
 }
@@ -3,7 +3,10 @@ import { useFrame } from "@react-three/fiber";
 import { Vector3, Group } from "three";
 import { Enemy, EnemyType } from "./Enemy";
 import { useEnemyStore } from "../stores/enemyStore";
-import { EnemyProjectile } from "./EnemyProjectile";
+import { gameRandom } from "../../core/ecs/random";
+
+// Spawning decisions come from the seeded RNG so matches can be replayed
+const random = gameRandom.stream("spawning");
 
 // Types for spawn points
 export interface SpawnPoint {
@@ -57,8 +60,7 @@ export function EnemySpawner({
       
       if (availableSpawns.length > 0) {
         // Choose a random spawn point
-        const randomIndex = Math.floor(Math.random() * availableSpawns.length);
-        const chosenSpawn = availableSpawns[randomIndex];
+        const chosenSpawn = random.pick(availableSpawns);
         
         // Update spawn time
         setSpawns(
@@ -74,8 +76,8 @@ export function EnemySpawner({
     }
     
     // Fallback to random position if no spawn points available
-    const angle = Math.random() * Math.PI * 2;
-    const distance = Math.random() * spawnRadius;
+    const angle = random.float(0, Math.PI * 2);
+    const distance = random.float(0, spawnRadius);
     const x = Math.cos(angle) * distance + playerPosition.current.x;
     const z = Math.sin(angle) * distance + playerPosition.current.z;
     
@@ -98,18 +100,18 @@ export function EnemySpawner({
   
   // Get random enemy type based on difficulty
   const getRandomEnemyType = (): EnemyType => {
-    const random = Math.random() * 100;
+    const roll = random.float(0, 100);
     
     if (difficulty >= 7) {
-      if (random < 10) return "commander";
-      if (random < 40) return "soldier";
+      if (roll < 10) return "commander";
+      if (roll < 40) return "soldier";
       return "grunt";
     } else if (difficulty >= 4) {
-      if (random < 5) return "commander";
-      if (random < 30) return "soldier";
+      if (roll < 5) return "commander";
+      if (roll < 30) return "soldier";
       return "grunt";
     } else {
-      if (random < 20) return "soldier";
+      if (roll < 20) return "soldier";
       return "grunt";
     }
   };
@@ -174,7 +176,7 @@ export function EnemySpawner({
     
     const type = getRandomEnemyType();
     const position = getRandomSpawnPosition();
-    const id = `enemy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const id = `enemy-${gameRandom.stream("ids").id(9)}`;
     
     addEnemy({ id, type, position });
   };
@@ -191,7 +193,7 @@ export function EnemySpawner({
       // Calculate spawn chance based on spawn rate
       const spawnChance = spawnRate / (60 * 60); // per frame at 60fps
       
-      if (Math.random() < spawnChance && enemies.length < maxEnemies) {
+      if (random.chance(spawnChance) && enemies.length < maxEnemies) {
         spawnEnemy();
       }
     } else if (waveActive) {
@@ -201,7 +203,7 @@ export function EnemySpawner({
       if (remainingToSpawn > 0) {
         // Gradual spawn during wave
         const spawnChance = 0.01; // Adjust based on desired spawn rate
-        if (Math.random() < spawnChance && enemies.length < maxEnemies) {
+        if (random.chance(spawnChance) && enemies.length < maxEnemies) {
           spawnEnemy();
         }
       }
@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { EnemyType } from "../components/Enemy";
 import { Vector3 } from "three";
+import { gameRandom } from "../../core/ecs/random";
 
 export interface EnemyData {
   id: string;
@@ -13,15 +14,6 @@ export interface EnemyData {
   lastAttackTime: number;
 }
 
-export interface ProjectileData {
-  id: string;
-  position: [number, number, number]; 
-  velocity: [number, number, number];
-  damage: number;
-  type: EnemyType;
-  createdAt: number;
-}
-
 interface EnemyState {
   // Collection of all enemies in the game
   enemies: EnemyData[];
@@ -29,9 +21,6 @@ interface EnemyState {
   // Player data for targeting
   player: { x: number, y: number, z: number } | null;
   
-  // Projectiles
-  projectiles: ProjectileData[];
-  
   // Counters and stats
   totalEnemies: number;
   aliveEnemies: number;
@@ -42,12 +31,6 @@ interface EnemyState {
   removeEnemy: (id: string) => void;
   getEnemyById: (id: string) => EnemyData | undefined;
   
-  // Projectile operations
-  addProjectile: (projectile: Omit<ProjectileData, "id" | "createdAt">) => string;
-  removeProjectile: (id: string) => void;
-  getProjectiles: () => ProjectileData[];
-  clearProjectiles: () => void;
-  
   // Player tracking
   updatePlayerPosition: (position: { x: number, y: number, z: number }) => void;
   getPlayer: () => { x: number, y: number, z: number } | null;
@@ -65,14 +48,13 @@ interface EnemyState {
 export const useEnemyStore = create<EnemyState>()((set, get) => ({
   // Initial state
   enemies: [],
-  projectiles: [],
   player: null,
   totalEnemies: 0,
   aliveEnemies: 0,
   
   // CRUD operations
   addEnemy: (enemy) => {
-    const id = `enemy-${Math.random().toString(36).substr(2, 9)}`;
+    const id = `enemy-${gameRandom.stream("ids").id(9)}`;
     set((state) => {
       const newEnemy = {
         id,
@@ -116,36 +98,6 @@ export const useEnemyStore = create<EnemyState>()((set, get) => ({
     return get().enemies.find((enemy) => enemy.id === id);
   },
   
-  // Projectile operations
-  addProjectile: (projectile) => {
-    const id = `proj-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    set((state) => ({
-      projectiles: [
-        ...state.projectiles,
-        {
-          id,
-          ...projectile,
-          createdAt: Date.now()
-        }
-      ]
-    }));
-    return id;
-  },
-  
-  removeProjectile: (id) => {
-    set((state) => ({
-      projectiles: state.projectiles.filter(p => p.id !== id)
-    }));
-  },
-  
-  getProjectiles: () => {
-    return get().projectiles;
-  },
-  
-  clearProjectiles: () => {
-    set({ projectiles: [] });
-  },
-  
   // Player tracking
   updatePlayerPosition: (position) => {
     set({ player: position });
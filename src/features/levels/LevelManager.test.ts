@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { usePlayerStore } from "../player/stores/playerStore";
+import { levelAbilities, useLevelManager } from "./LevelManager";
+
+describe("levelAbilities", () => {
+  const { levels } = useLevelManager.getState();
+  const loadout = usePlayerStore.getState().abilities;
+
+  it("unlocks nothing by default", () => {
+    expect(loadout).toEqual([]);
+    expect(levelAbilities(loadout, levels.tutorial)).toEqual([]);
+  });
+
+  it("adds what each level grants", () => {
+    expect(levelAbilities(loadout, levels.level1)).toEqual(["mantle"]);
+    expect(levelAbilities(loadout, levels.level2).sort()).toEqual(
+      ["doubleJump", "mantle", "wallJump", "wallRun"]
+    );
+  });
+
+  it("keeps the loadout's unlocks on every level, once each", () => {
+    usePlayerStore.getState().unlockAbility("mantle");
+    const unlocked = usePlayerStore.getState().abilities;
+
+    expect(levelAbilities(unlocked, levels.tutorial)).toEqual(["mantle"]);
+    expect(levelAbilities(unlocked, levels.level1)).toEqual(["mantle"]);
+
+    usePlayerStore.getState().resetPlayerState();
+    expect(usePlayerStore.getState().abilities).toEqual([]);
+  });
+});
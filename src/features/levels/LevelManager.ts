@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import { useGameStore } from "../../stores/gameStore";
+import { MovementAbility } from "../player/movement";
 
 // Define level metadata
 export interface LevelData {
@@ -9,6 +10,19 @@ export interface LevelData {
   difficulty: number;
   nextLevelId?: string;
   completed: boolean;
+  // Movement abilities the level grants on top of the player's loadout
+  abilities?: MovementAbility[];
+}
+
+/**
+ * Movement abilities the player has on a level: the loadout plus whatever
+ * the level grants
+ */
+export function levelAbilities(
+  loadout: readonly MovementAbility[],
+  level: LevelData | undefined
+): MovementAbility[] {
+  return [...new Set([...loadout, ...(level?.abilities ?? [])])];
 }
 
 // Level Manager store
@@ -45,7 +59,8 @@ const initialLevels: Record<string, LevelData> = {
     description: "Navigate through an abandoned industrial complex filled with enemies.",
     difficulty: 2,
     nextLevelId: "level2",
-    completed: false
+    completed: false,
+    abilities: ["mantle"]
   },
   "level2": {
     id: "level2",
@@ -53,14 +68,16 @@ const initialLevels: Record<string, LevelData> = {
     description: "Descend into the darkness of an underground research facility.",
     difficulty: 3,
     nextLevelId: "level3",
-    completed: false
+    completed: false,
+    abilities: ["mantle", "doubleJump", "wallRun", "wallJump"]
   },
   "level3": {
     id: "level3",
     name: "Final Showdown",
     description: "Face the final challenge in this high-security area.",
     difficulty: 4,
-    completed: false
+    completed: false,
+    abilities: ["mantle", "doubleJump", "wallRun", "wallJump"]
   }
 };
 
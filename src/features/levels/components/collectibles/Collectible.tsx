@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { useFrame } from "@react-three/fiber";
 import { RigidBody, CuboidCollider } from "@react-three/rapier";
+import { collisionGroups } from "../../../core/physics/collisionLayers";
 import { usePlayerStore } from "../../../player/stores/playerStore";
 import { Text } from "@react-three/drei";
 import { Vector3 } from "three";
@@ -160,7 +161,7 @@ export function Collectible({
   if (collected) return null;
 
   return (
-    <RigidBody type="fixed" colliders={false} sensor>
+    <RigidBody type="fixed" colliders={false} sensor collisionGroups={collisionGroups("pickup")}>
       <CuboidCollider args={[scale, scale, scale]} position={position} onIntersectionEnter={handleCollect} />
       
       <mesh ref={collectibleRef} position={position} scale={scale}>
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { RigidBody, CuboidCollider } from "@react-three/rapier";
 import { useFrame } from "@react-three/fiber";
 import { Howl } from "howler";
+import { collisionGroups } from "../../../core/physics/collisionLayers";
 import { usePlayerStore } from "../../../player/stores/playerStore";
 import { Vector3 } from "three";
 
@@ -143,7 +144,12 @@ export function PressurePlate({
   };
 
   return (
-    <RigidBody type="fixed" position={position} colliders={false}>
+    <RigidBody
+      type="fixed"
+      position={position}
+      colliders={false}
+      collisionGroups={collisionGroups("trigger")}
+    >
       <CuboidCollider 
         args={[size[0]/2, size[1]/2, size[2]/2]} 
         sensor 
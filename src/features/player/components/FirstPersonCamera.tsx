@@ -2,7 +2,11 @@ import { useFrame, useThree } from "@react-three/fiber";
 import { forwardRef, useEffect, useRef, useImperativeHandle } from "react";
 import { Vector3, Euler, MathUtils } from "three";
 import { PointerLockControls } from "@react-three/drei";
-import { inputState } from "../../core/ecs/systems/inputSystem";
+import { inputActions } from "../../core/input/actions";
+import { gamepadInput } from "../../core/input/gamepad";
+import { touchInput } from "../../core/input/touchControls";
+import { getAimAssistFactor } from "../../core/input/aimAssist";
+import { useEnemyStore } from "../../enemies/stores/enemyStore";
 
 // Log debugging information
 const DEBUG = true;
@@ -38,6 +42,8 @@ export const FirstPersonCamera = forwardRef(({
   const headBobPhase = useRef(0);
   const velocity = useRef(new Vector3());
   const direction = useRef(new Vector3());
+  const lookEuler = useRef(new Euler(0, 0, 0, "YXZ"));
+  const viewDirection = useRef(new Vector3());
 
   // Expose controls to parent component through ref
   useImperativeHandle(ref, () => ({
@@ -104,14 +110,45 @@ export const FirstPersonCamera = forwardRef(({
     };
   }, [gl]);
 
+  // Gamepad and touch look; mouse look is handled by PointerLockControls
+  useFrame((_, delta) => {
+    // Drags made while in a menu shouldn't turn the camera afterwards
+    const drag = touchInput.consumeLook();
+    if (inputActions.getContext() !== "gameplay") return;
+
+    const look = gamepadInput.getLook();
+    if (look.x === 0 && look.y === 0 && drag.x === 0 && drag.y === 0) return;
+
+    // Slow the stick down near enemies so it can track them
+    let assist = 1;
+    const settings = gamepadInput.getSettings();
+    if (settings.aimAssist && (look.x !== 0 || look.y !== 0)) {
+      const targets = useEnemyStore.getState().enemies.filter((enemy) => !enemy.isDead);
+      camera.getWorldDirection(viewDirection.current);
+      assist = getAimAssistFactor(camera.position, viewDirection.current, targets, {
+        strength: settings.aimAssistStrength,
+      });
+    }
+
+    const euler = lookEuler.current.setFromQuaternion(camera.quaternion);
+    euler.y -= look.x * assist * delta + drag.x;
+    euler.x = MathUtils.clamp(
+      euler.x - look.y * assist * delta - drag.y,
+      -Math.PI / 2,
+      Math.PI / 2
+    );
+    camera.quaternion.setFromEuler(euler);
+  });
+
   // Handle camera movement each frame
   useFrame((_, delta) => {
     if (!isLocked.current || !controlsRef.current) {
       return;
     }
     
-    // Get movement input from input system
-    const { forward, right } = inputState.movement;
+    // Get movement input from the action map
+    const forward = inputActions.getAxis("moveY");
+    const right = inputActions.getAxis("moveX");
     
     // Skip if no movement
     if (forward === 0 && right === 0) {
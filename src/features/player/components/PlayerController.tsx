@@ -1,10 +1,14 @@
 import { useFrame, useThree } from "@react-three/fiber";
 import { useRef, useState, useEffect } from "react";
-import { Vector3, Group, Raycaster, Vector2, Camera } from "three";
-import { useRapier, RigidBody, CapsuleCollider, CuboidCollider } from "@react-three/rapier";
+import { Vector3, Group, Raycaster, Vector2, Camera, MathUtils } from "three";
+import { RigidBody, CapsuleCollider, CuboidCollider } from "@react-three/rapier";
 import type { RigidBody as RapierRigidBody } from "@react-three/rapier";
 import { Collider } from "@dimforge/rapier3d-compat";
+import { InputAction, inputActions } from "../../core/input/actions";
+import { gamepadInput } from "../../core/input/gamepad";
 import { inputState } from "../../core/ecs/systems/inputSystem";
+import { collisionGroups } from "../../core/physics/collisionLayers";
+import { usePhysicsQueries } from "../../core/physics/usePhysicsQueries";
 import { FirstPersonCamera } from "./FirstPersonCamera";
 import { Weapon, WeaponType, Impact } from "../../weapons/components/Weapon";
 import {
@@ -13,7 +17,11 @@ import {
   ImpactEffect,
 } from "../../weapons/components/ShootingEffects";
 import { usePlayerStore } from "../stores/playerStore";
+import { PlayerMovement } from "../movement";
+import { PlayerShape, probeLedge, probeWall } from "../movementProbes";
+import { levelAbilities, useLevelManager } from "../../levels/LevelManager";
 import { useEnemyStore } from "../../enemies/stores/enemyStore"; // Fix import path
+import { useGameStore } from "../../../stores/gameStore";
 
 // Extend Window interface to store camera reference
 declare global {
@@ -50,6 +58,57 @@ const weaponStats = {
   },
 };
 
+// The capsule gets shorter when crouching, keeping its radius and feet in place
+const CAPSULE_RADIUS = 0.8;
+const STANDING_HALF_HEIGHT = 0.4;
+const CROUCHED_HALF_HEIGHT = 0.05;
+const FEET_HEIGHT = -(STANDING_HALF_HEIGHT + CAPSULE_RADIUS);
+
+// Camera height above the body's origin
+const STANDING_EYE_HEIGHT = 0.8;
+const CROUCHED_EYE_HEIGHT = 0;
+// How fast the camera moves between the two, higher is snappier
+const EYE_HEIGHT_DAMPING = 12;
+
+const PLAYER_SHAPE: PlayerShape = {
+  radius: CAPSULE_RADIUS,
+  feet: FEET_HEIGHT,
+  height: (STANDING_HALF_HEIGHT + CAPSULE_RADIUS) * 2,
+};
+// Ledges between knee height and about two thirds of the player can be climbed
+const MANTLE_LIMITS = { minHeight: 0.5, maxHeight: 1.6 };
+
+interface MovementInput {
+  forward: number;
+  right: number;
+  jump: boolean;
+  sprint: boolean;
+  crouch: boolean;
+}
+
+// Live play reads the action map directly; a replayed recording only
+// reaches the ECS input state, so the player follows that while one runs
+function readMovementInput(): MovementInput {
+  if (useGameStore.getState().inputPlayback) {
+    const { movement, buttons } = inputState;
+    return {
+      forward: movement.forward,
+      right: movement.right,
+      jump: buttons.jump,
+      sprint: buttons.sprint,
+      crouch: buttons.slide,
+    };
+  }
+
+  return {
+    forward: inputActions.getAxis("moveY"),
+    right: inputActions.getAxis("moveX"),
+    jump: inputActions.isDown("jump"),
+    sprint: inputActions.isDown("sprint"),
+    crouch: inputActions.isDown("crouch"),
+  };
+}
+
 interface PlayerControllerProps {
   position?: [number, number, number];
   moveSpeed?: number;
@@ -70,22 +129,26 @@ export function PlayerController({
   const modelRef = useRef<THREE.Group>(null);
   const cameraRef = useRef<any>(null);
   const groundSensor = useRef<boolean>(false);
-  const jumpTimer = useRef<number>(0);
   const velocity = useRef<Vector3>(new Vector3());
   const directionOffset = useRef<number>(0);
   const raycaster = useRef(new Raycaster());
   const screenCenter = useRef(new Vector2(0, 0));
   const lastTakeDamageTime = useRef<number>(0);
+  const movement = useRef(
+    new PlayerMovement({ walkSpeed: moveSpeed, jumpSpeed: jumpForce / mass })
+  );
+  const eyeHeight = useRef(STANDING_EYE_HEIGHT);
 
   // Get camera and physics from three.js context
   const { camera } = useThree();
-  const { rapier, world } = useRapier();
+  const queries = usePhysicsQueries();
 
   // Player state
   const [health, setHealth] = useState(maxHealth);
   const [isDead, setIsDead] = useState(false);
   const [isJumping, setIsJumping] = useState(false);
   const [isGrounded, setIsGrounded] = useState(false);
+  const [isCrouched, setIsCrouched] = useState(false);
 
   // Visual effects state
   const [effects, setEffects] = useState<{
@@ -114,6 +177,61 @@ export function PlayerController({
     }
   }, [position]);
 
+  // Replays start from the spawn point and play resumes from there, the
+  // body isn't part of the ECS snapshot
+  const playbackResets = useGameStore((state) => state.inputPlaybackResets);
+  const spawnPoint = useRef(position);
+  spawnPoint.current = position;
+  useEffect(() => {
+    const body = playerRef.current;
+    if (!playbackResets || !body) return;
+
+    const [x, y, z] = spawnPoint.current;
+    body.setTranslation({ x, y, z }, true);
+    body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+  }, [playbackResets]);
+
+  // Resize the collider and keep the HUD up to date as the movement state changes
+  useEffect(() => {
+    const playerMovement = movement.current;
+    usePlayerStore
+      .getState()
+      .setStamina(playerMovement.stamina, playerMovement.config.maxStamina);
+
+    return playerMovement.events.on("StateChanged", ({ state }) => {
+      setIsCrouched(playerMovement.crouched);
+      usePlayerStore.getState().setMovementState(state);
+    });
+  }, []);
+
+  // Abilities come from the loadout plus whatever the current level grants
+  const loadoutAbilities = usePlayerStore((state) => state.abilities);
+  const level = useLevelManager((state) =>
+    state.currentLevelId ? state.levels[state.currentLevelId] : undefined
+  );
+  useEffect(() => {
+    movement.current.setAbilities(levelAbilities(loadoutAbilities, level));
+  }, [loadoutAbilities, level]);
+
+  // Check if a crouched player has room to stand up
+  const hasHeadroom = (): boolean => {
+    const body = playerRef.current;
+    if (!body) return true;
+
+    const { x, y, z } = body.translation();
+    // From the top of the crouched capsule up to the top of the standing one
+    const top = FEET_HEIGHT + CAPSULE_RADIUS + CROUCHED_HALF_HEIGHT * 2;
+    const rise = (STANDING_HALF_HEIGHT - CROUCHED_HALF_HEIGHT) * 2;
+    const hit = queries.sphereCast(
+      { x, y: y + top, z },
+      CAPSULE_RADIUS * 0.9, // Narrower, so walls next to the player don't count
+      { x: 0, y: 1, z: 0 },
+      rise,
+      { layer: "player", exclude: [body] }
+    );
+    return hit === null;
+  };
+
   // Update camera and model positions
   useFrame((_, delta) => {
     if (!playerRef.current || isDead) return;
@@ -129,39 +247,33 @@ export function PlayerController({
       modelRef.current.position.set(playerPos.x, playerPos.y, playerPos.z);
     }
     
+    // Ease the camera down when crouching and back up when standing
+    eyeHeight.current = MathUtils.damp(
+      eyeHeight.current,
+      movement.current.crouched ? CROUCHED_EYE_HEIGHT : STANDING_EYE_HEIGHT,
+      EYE_HEIGHT_DAMPING,
+      delta
+    );
+    const eyeY = playerPos.y + eyeHeight.current;
+
     // Update camera position - safely handle camera reference
     if (cameraRef.current) {
       if (typeof cameraRef.current.setPosition === 'function') {
-        cameraRef.current.setPosition([playerPos.x, playerPos.y + 0.8, playerPos.z]);
+        cameraRef.current.setPosition([playerPos.x, eyeY, playerPos.z]);
       } 
     } else if (camera) {
       // Fallback to using the global camera
-      camera.position.set(playerPos.x, playerPos.y + 0.8, playerPos.z);
-    }
-
-    // Jumping logic
-    if (inputState.jump) {
-      // Only allow jumping if we're on the ground and jump timer expired
-      if (groundSensor.current && jumpTimer.current <= 0) {
-        const jumpStrength = jumpForce;
-        playerRef.current.applyImpulse({ x: 0, y: jumpStrength, z: 0 }, true);
-        jumpTimer.current = 0.3; // Cooldown between jumps
-      }
+      camera.position.set(playerPos.x, eyeY, playerPos.z);
     }
 
-    // Update jump timer
-    if (jumpTimer.current > 0) {
-      jumpTimer.current -= delta;
-    }
-
-    // Handle movement
-    const { forward, backward, left, right } = inputState.movement;
+    // Handle movement, analog from a gamepad stick or digital from keys
+    const input = readMovementInput();
+    const { forward, right } = input;
     
-    // Get current velocity
+    // Start from the body's velocity, so walls stop momentum and gravity
+    // keeps working unless a jump, wall run or mantle takes over
     const playerVelocity = playerRef.current.linvel();
-    
-    // Preserve Y velocity (gravity/jump)
-    const currentVelY = playerVelocity.y;
+    velocity.current.set(playerVelocity.x, playerVelocity.y, playerVelocity.z);
 
     // Get camera direction
     const cameraQuat = camera.quaternion.clone();
@@ -172,35 +284,57 @@ export function PlayerController({
     cameraQuat.normalize();
     
     // Calculate move direction based on inputs and camera rotation
-    const moveDirection = new Vector3(0, 0, 0);
+    const moveDirection = new Vector3(right, 0, forward);
     
-    if (forward) moveDirection.z -= 1;
-    if (backward) moveDirection.z += 1;
-    if (left) moveDirection.x -= 1;
-    if (right) moveDirection.x += 1;
-    
-    if (moveDirection.length() > 0) {
-      moveDirection.normalize();
-      moveDirection.applyQuaternion(cameraQuat);
-      
-      // Apply movement with gradual acceleration for better control
-      velocity.current.x = moveDirection.x * moveSpeed;
-      velocity.current.z = moveDirection.z * moveSpeed;
-    } else {
-      // Gradual deceleration when no input
-      velocity.current.x *= 0.9;
-      velocity.current.z *= 0.9;
-      
-      // Stop completely if very slow
-      if (Math.abs(velocity.current.x) < 0.01) velocity.current.x = 0;
-      if (Math.abs(velocity.current.z) < 0.01) velocity.current.z = 0;
+    // Diagonals are capped at full speed, a half-pushed stick walks slower
+    if (moveDirection.length() > 1) moveDirection.normalize();
+    moveDirection.applyQuaternion(cameraQuat);
+
+    // Only probe for walls and ledges when the abilities using them are unlocked
+    const playerMovement = movement.current;
+    const { jump } = input;
+    const grounded = groundSensor.current;
+    const moving = moveDirection.lengthSq() > 0;
+    const usesWalls =
+      playerMovement.hasAbility("wallRun") || playerMovement.hasAbility("wallJump");
+    const wall =
+      usesWalls && !grounded
+        ? probeWall(queries, playerRef.current, velocity.current, PLAYER_SHAPE)
+        : null;
+    const ledge =
+      playerMovement.hasAbility("mantle") && jump && moving
+        ? probeLedge(queries, playerRef.current, moveDirection, PLAYER_SHAPE, MANTLE_LIMITS)
+        : null;
+
+    // Sprint, crouch, slide, jumps, wall runs and mantles pick the velocity
+    playerMovement.step(
+      {
+        moveX: moveDirection.x,
+        moveZ: moveDirection.z,
+        sprint: input.sprint,
+        crouch: input.crouch,
+        jump,
+        grounded,
+        canStand: !playerMovement.crouched || hasHeadroom(),
+        position: playerPos,
+        wall,
+        ledge,
+      },
+      velocity.current,
+      delta
+    );
+
+    // Only round numbers reach the store, so the HUD doesn't redraw every frame
+    const stamina = Math.round(playerMovement.stamina);
+    if (stamina !== usePlayerStore.getState().stamina) {
+      usePlayerStore.getState().setStamina(stamina);
     }
     
     // Apply velocity to rigid body
     playerRef.current.setLinvel(
       { 
         x: velocity.current.x, 
-        y: currentVelY, // Preserve y velocity for gravity/jumping
+        y: velocity.current.y,
         z: velocity.current.z 
       }, 
       true
@@ -228,6 +362,8 @@ export function PlayerController({
     if (currentTime - lastTakeDamageTime.current < 100) return;
     lastTakeDamageTime.current = currentTime;
 
+    gamepadInput.rumble(Math.min(1, 0.3 + amount / 50), 200);
+
     setHealth((prev) => {
       const newHealth = Math.max(0, prev - amount);
       if (newHealth <= 0) {
@@ -304,6 +440,7 @@ export function PlayerController({
 
     // Record that we're shooting
     setShooting(true);
+    gamepadInput.rumble(0.25, 80);
 
     // Decrease ammo
     setAmmo((prev) => prev - 1);
@@ -323,25 +460,11 @@ export function PlayerController({
       // Set the raycaster
       raycaster.current.set(rayOrigin, rayDirection);
 
-      // Convert to physics ray format
-      const rayDirPhysics = {
-        x: rayDirection.x,
-        y: rayDirection.y,
-        z: rayDirection.z,
-      };
-
-      // Get ray in the format expected by Rapier physics
-      const rayOriginPhysics = { x: rayOrigin.x, y: rayOrigin.y, z: rayOrigin.z };
-      const ray = new rapier.Ray(rayOriginPhysics, rayDirPhysics);
-
-      // Cast the ray with proper filter
-      const maxToi = currentWeaponData.range; // Maximum range
-      const solid = true; // Only report solid objects
-      const hit = world.castRayAndGetNormal(
-        ray,
-        maxToi,
-        solid
-      );
+      // Cast the ray as a player shot, so it passes through the player's own
+      // body, pickups and triggers
+      const hit = queries.raycast(rayOrigin, rayDirection, currentWeaponData.range, {
+        layer: "playerProjectile",
+      });
 
       // Default end position (if no hit)
       const endPosition: [number, number, number] = [
@@ -354,25 +477,16 @@ export function PlayerController({
 
       // If we hit something
       if (hit) {
-        const hitPoint = ray.pointAt(hit.toi);
-        endPosition[0] = hitPoint.x;
-        endPosition[1] = hitPoint.y;
-        endPosition[2] = hitPoint.z;
+        endPosition[0] = hit.point.x;
+        endPosition[1] = hit.point.y;
+        endPosition[2] = hit.point.z;
 
         // Extract normal from the hit
         normalVector = [hit.normal.x, hit.normal.y, hit.normal.z];
 
-        // If the collider has a parent (usually means it's an entity)
-        if (hit.collider.parent()) {
-          const hitObject = hit.collider.parent().userData;
-
-          // Handle different hit types
-          if (hitObject?.type === "enemy") {
-            // Enemy hit
-            if (hitObject.takeDamage) {
-              hitObject.takeDamage(currentWeaponData.damage);
-            }
-          }
+        // Enemy hit, the body behind the collider knows how to take damage
+        if (hit.layer === "enemy") {
+          hit.owner?.takeDamage?.(currentWeaponData.damage);
         }
 
         // Create an impact
@@ -451,13 +565,29 @@ export function PlayerController({
   };
 
   // Weapon switching
-  useFrame(() => {
-    // Number keys 1-4 to switch weapons
-    if (inputState.keys["1"]) setCurrentWeapon("pistol");
-    if (inputState.keys["2"]) setCurrentWeapon("shotgun");
-    if (inputState.keys["3"]) setCurrentWeapon("rifle");
-    if (inputState.keys["4"]) setCurrentWeapon("plasmagun");
-  });
+  useEffect(() => {
+    const slots: [InputAction, WeaponType][] = [
+      ["weapon1", "pistol"],
+      ["weapon2", "shotgun"],
+      ["weapon3", "rifle"],
+      ["weapon4", "plasmagun"],
+    ];
+    const order = slots.map(([, weapon]) => weapon);
+    const cycle = (step: number) =>
+      setCurrentWeapon(
+        (weapon) =>
+          order[(order.indexOf(weapon) + step + order.length) % order.length]
+      );
+
+    const unsubscribers = [
+      ...slots.map(([action, weapon]) =>
+        inputActions.onPressed(action, () => setCurrentWeapon(weapon))
+      ),
+      inputActions.onPressed("weaponNext", () => cycle(1)),
+      inputActions.onPressed("weaponPrev", () => cycle(-1)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
 
   return (
     <>
@@ -471,15 +601,25 @@ export function PlayerController({
         enabledRotations={[false, false, false]}
         lockRotations
         userData={{ type: "player", takeDamage }}
+        collisionGroups={collisionGroups("player")}
       >
-        {/* Player collider */}
-        <CapsuleCollider args={[0.4, 0.8]} />
-
-        {/* Ground sensor for jump detection */}
+        {/* Player collider, shorter while crouching or sliding */}
+        {isCrouched ? (
+          <CapsuleCollider
+            key="crouched"
+            args={[CROUCHED_HALF_HEIGHT, CAPSULE_RADIUS]}
+            position={[0, FEET_HEIGHT + CAPSULE_RADIUS + CROUCHED_HALF_HEIGHT, 0]}
+          />
+        ) : (
+          <CapsuleCollider key="standing" args={[STANDING_HALF_HEIGHT, CAPSULE_RADIUS]} />
+        )}
+
+        {/* Ground sensor for jump detection, only for things that can be stood on */}
         <CuboidCollider
           args={[0.2, 0.1, 0.2]}
-          position={[0, -0.9, 0]}
+          position={[0, FEET_HEIGHT, 0]}
           sensor
+          collisionGroups={collisionGroups("player", ["world", "enemy", "debris"])}
           onIntersectionEnter={onSensorCollisionEnter}
           onIntersectionExit={onSensorCollisionExit}
         />
@@ -496,7 +636,7 @@ export function PlayerController({
 
       {/* First person camera */}
       <FirstPersonCamera
-        position={[position[0], position[1] + 0.8, position[2]]}
+        position={[position[0], position[1] + STANDING_EYE_HEIGHT, position[2]]}
         moveSpeed={moveSpeed}
         ref={cameraRef}
       />
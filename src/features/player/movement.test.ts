@@ -0,0 +1,346 @@
+import { Vector3 } from "three";
+import { beforeEach, describe, expect, it } from "vitest";
+import { JumpKind, MovementEvents, MovementInput, PlayerMovement } from "./movement";
+
+const DT = 1 / 60;
+
+// Standing on the ground with nothing pressed, unless overridden
+function input(overrides: Partial<MovementInput> = {}): MovementInput {
+  return {
+    moveX: 0,
+    moveZ: 0,
+    sprint: false,
+    crouch: false,
+    jump: false,
+    grounded: true,
+    canStand: true,
+    position: { x: 0, y: 0, z: 0 },
+    wall: null,
+    ledge: null,
+    ...overrides,
+  };
+}
+
+const FORWARD = { moveZ: -1 };
+
+describe("PlayerMovement", () => {
+  let movement: PlayerMovement;
+  let velocity: Vector3;
+  let events: (keyof MovementEvents)[];
+
+  beforeEach(() => {
+    movement = new PlayerMovement();
+    velocity = new Vector3();
+    events = [];
+    for (const type of ["StaminaDepleted", "StaminaRecovered", "SlideStarted", "SlideEnded"] as const) {
+      movement.events.on(type, () => events.push(type));
+    }
+  });
+
+  function run(seconds: number, overrides: Partial<MovementInput> = {}) {
+    const ticks = Math.round(seconds / DT);
+    for (let i = 0; i < ticks; i++) {
+      movement.step(input(overrides), velocity, DT);
+    }
+  }
+
+  const horizontalSpeed = () => Math.hypot(velocity.x, velocity.z);
+
+  describe("sprinting", () => {
+    it("is faster and drains stamina while held", () => {
+      run(1, { ...FORWARD, sprint: true });
+
+      expect(movement.state).toBe("sprinting");
+      expect(horizontalSpeed()).toBeCloseTo(5 * 1.6, 6);
+      expect(movement.stamina).toBeCloseTo(100 - 20, 3);
+    });
+
+    it("needs to be moving", () => {
+      run(1, { sprint: true });
+
+      expect(movement.state).toBe("walking");
+      expect(movement.stamina).toBe(100);
+    });
+
+    it("stops when stamina runs out, until it recovers past the threshold", () => {
+      run(5.1, { ...FORWARD, sprint: true });
+      expect(movement.stamina).toBe(0);
+      expect(movement.state).toBe("walking");
+      expect(events).toEqual(["StaminaDepleted"]);
+
+      // Still holding sprint: the regen delay, then up to 25 stamina
+      run(1.5, { ...FORWARD, sprint: true });
+      expect(movement.state).toBe("walking");
+      expect(movement.stamina).toBeLessThan(25);
+
+      run(0.4, { ...FORWARD, sprint: true });
+      expect(events).toEqual(["StaminaDepleted", "StaminaRecovered"]);
+      expect(movement.state).toBe("sprinting");
+    });
+
+    it("regenerates only after the delay", () => {
+      run(1, { ...FORWARD, sprint: true });
+      const drained = movement.stamina;
+
+      run(0.5, FORWARD);
+      expect(movement.stamina).toBe(drained);
+
+      run(1.3, FORWARD);
+      expect(movement.stamina).toBeCloseTo(Math.min(100, drained + 25 * 1), 0);
+    });
+
+    it("can't start in the air", () => {
+      run(0.5, { ...FORWARD, sprint: true, grounded: false });
+
+      expect(movement.state).toBe("walking");
+    });
+  });
+
+  describe("crouching", () => {
+    it("is slower and uses the short collider", () => {
+      run(0.5, { ...FORWARD, crouch: true });
+
+      expect(movement.state).toBe("crouching");
+      expect(movement.crouched).toBe(true);
+      expect(horizontalSpeed()).toBeCloseTo(5 * 0.5, 6);
+    });
+
+    it("only stands up once there's room above", () => {
+      run(0.2, { crouch: true });
+
+      run(0.5, { canStand: false });
+      expect(movement.state).toBe("crouching");
+
+      run(DT, { canStand: true });
+      expect(movement.state).toBe("walking");
+      expect(movement.crouched).toBe(false);
+    });
+  });
+
+  describe("sliding", () => {
+    // Sprint up to speed, then press crouch
+    function startSlide() {
+      run(0.5, { ...FORWARD, sprint: true });
+      run(DT, { ...FORWARD, sprint: true, crouch: true });
+    }
+
+    it("starts from a sprint with a boost", () => {
+      startSlide();
+
+      expect(movement.state).toBe("sliding");
+      expect(events).toEqual(["SlideStarted"]);
+      expect(horizontalSpeed()).toBeCloseTo(5 * 1.6 + 2, 6);
+    });
+
+    it("doesn't start from a walk", () => {
+      run(0.5, FORWARD);
+      run(DT, { ...FORWARD, crouch: true });
+
+      expect(movement.state).toBe("crouching");
+      expect(events).toEqual([]);
+    });
+
+    it("keeps its direction and loses speed to friction", () => {
+      startSlide();
+      const start = horizontalSpeed();
+
+      run(0.5, { moveX: 1, crouch: true });
+
+      expect(velocity.x).toBeCloseTo(0, 6);
+      expect(velocity.z).toBeLessThan(0);
+      expect(horizontalSpeed()).toBeCloseTo(start - 6 * 0.5, 1);
+    });
+
+    it("keeps its speed in the air", () => {
+      startSlide();
+      const start = horizontalSpeed();
+
+      run(0.5, { crouch: true, grounded: false });
+
+      expect(movement.state).toBe("sliding");
+      expect(horizontalSpeed()).toBeCloseTo(start, 6);
+    });
+
+    it("ends in a crouch once down to crouching speed", () => {
+      startSlide();
+
+      // From 10 down to 2.5 at 6 per second
+      run(1.2, { crouch: true });
+      expect(movement.state).toBe("sliding");
+
+      run(0.1, { crouch: true });
+      expect(movement.state).toBe("crouching");
+      expect(events).toEqual(["SlideStarted", "SlideEnded"]);
+    });
+
+    it("is cancelled by letting go of crouch, unless under a ceiling", () => {
+      startSlide();
+
+      run(0.2, { canStand: false });
+      expect(movement.state).toBe("sliding");
+
+      run(DT);
+      expect(movement.state).toBe("walking");
+      expect(events).toEqual(["SlideStarted", "SlideEnded"]);
+    });
+  });
+
+  describe("abilities", () => {
+    // A wall on the player's left while running along it, in the air
+    const WALL = { normal: { x: 1, y: 0, z: 0 } };
+    const ALONG_WALL = { ...FORWARD, grounded: false, wall: WALL };
+    let jumps: JumpKind[];
+
+    beforeEach(() => {
+      jumps = [];
+      movement.events.on("Jumped", ({ kind }) => jumps.push(kind));
+    });
+
+    // Off the ground at running speed along the wall
+    function leaveGround() {
+      run(DT);
+      velocity.set(0, 0, -6);
+    }
+
+    describe("wall run", () => {
+      it("starts beside a wall when fast enough", () => {
+        movement.setAbilities(["wallRun"]);
+        leaveGround();
+
+        run(DT, ALONG_WALL);
+
+        expect(movement.state).toBe("wallRunning");
+        expect(velocity.z).toBeLessThanOrEqual(-5);
+        // Pressed into the wall, so the probe keeps touching it
+        expect(velocity.x).toBeLessThan(0);
+      });
+
+      it("does nothing while locked", () => {
+        leaveGround();
+
+        run(0.2, ALONG_WALL);
+
+        expect(movement.state).toBe("walking");
+      });
+
+      it("times out, and the same wall needs a landing first", () => {
+        movement.setAbilities(["wallRun"]);
+        const durations: number[] = [];
+        movement.events.on("WallRunEnded", ({ duration }) => durations.push(duration));
+        leaveGround();
+
+        run(1.6, ALONG_WALL);
+        expect(movement.state).toBe("walking");
+        expect(durations).toHaveLength(1);
+        expect(durations[0]).toBeCloseTo(1.5, 1);
+
+        velocity.set(0, 0, -6);
+        run(0.2, ALONG_WALL);
+        expect(movement.state).toBe("walking");
+
+        leaveGround();
+        run(DT, ALONG_WALL);
+        expect(movement.state).toBe("wallRunning");
+      });
+    });
+
+    describe("wall jump", () => {
+      it("pushes away from the wall and keeps the speed along it", () => {
+        movement.setAbilities(["wallJump"]);
+        leaveGround();
+
+        run(DT, { ...ALONG_WALL, jump: true });
+
+        expect(jumps).toEqual(["wall"]);
+        expect(velocity.x).toBeCloseTo(6, 6);
+        expect(velocity.y).toBe(5);
+        expect(velocity.z).toBeCloseTo(-6, 6);
+      });
+
+      it("jumps out of a wall run", () => {
+        movement.setAbilities(["wallRun", "wallJump"]);
+        leaveGround();
+        run(0.2, ALONG_WALL);
+
+        run(DT, { ...ALONG_WALL, jump: true });
+
+        expect(movement.state).toBe("walking");
+        expect(jumps).toEqual(["wall"]);
+        expect(velocity.x).toBeCloseTo(6, 6);
+      });
+
+      it("does nothing while locked", () => {
+        leaveGround();
+
+        run(DT, { ...ALONG_WALL, jump: true });
+
+        expect(jumps).toEqual([]);
+        expect(velocity.y).toBe(0);
+      });
+    });
+
+    describe("double jump", () => {
+      function airJump() {
+        run(DT, { grounded: false });
+        run(DT, { grounded: false, jump: true });
+      }
+
+      it("jumps once per time in the air", () => {
+        movement.setAbilities(["doubleJump"]);
+        run(DT);
+
+        airJump();
+        expect(jumps).toEqual(["double"]);
+        expect(velocity.y).toBe(5);
+
+        velocity.y = 0;
+        airJump();
+        expect(jumps).toEqual(["double"]);
+        expect(velocity.y).toBe(0);
+
+        // Landing gives it back
+        run(DT);
+        airJump();
+        expect(jumps).toEqual(["double", "double"]);
+      });
+
+      it("does nothing while locked", () => {
+        run(DT);
+
+        airJump();
+
+        expect(jumps).toEqual([]);
+        expect(velocity.y).toBe(0);
+      });
+    });
+
+    describe("mantle", () => {
+      const LEDGE = { position: { x: 0, y: 1, z: -0.5 }, height: 1 };
+      const INTO_LEDGE = { ...FORWARD, jump: true, ledge: LEDGE };
+
+      it("climbs up, then over onto the ledge", () => {
+        movement.setAbilities(["mantle"]);
+
+        run(DT, INTO_LEDGE);
+        expect(movement.state).toBe("mantling");
+        expect(velocity.toArray()).toEqual([0, 5, 0]);
+
+        // High enough, over the top
+        run(DT, { ...INTO_LEDGE, position: { x: 0, y: 1, z: 0 } });
+        expect(velocity.y).toBe(0);
+        expect(velocity.z).toBeLessThan(0);
+
+        run(DT, { ...INTO_LEDGE, position: LEDGE.position });
+        expect(movement.state).toBe("walking");
+        expect(velocity.toArray()).toEqual([0, 0, 0]);
+      });
+
+      it("jumps instead while locked", () => {
+        run(DT, INTO_LEDGE);
+
+        expect(movement.state).toBe("walking");
+        expect(jumps).toEqual(["ground"]);
+      });
+    });
+  });
+});
@@ -0,0 +1,616 @@
+import { MathUtils, Vector3 } from "three";
+import { EventBus } from "../core/ecs/events";
+import type { VectorLike } from "../core/physics/physicsQueries";
+
+export type MovementState =
+  | "walking"
+  | "sprinting"
+  | "crouching"
+  | "sliding"
+  | "wallRunning"
+  | "mantling";
+
+/**
+ * Moves beyond walking and jumping, unlocked by the loadout or the level
+ */
+export type MovementAbility = "wallRun" | "wallJump" | "mantle" | "doubleJump";
+
+export type JumpKind = "ground" | "double" | "wall";
+
+/**
+ * Events fired by PlayerMovement as they happen, for sounds and the HUD
+ */
+export interface MovementEvents {
+  StateChanged: {
+    state: MovementState;
+    previous: MovementState;
+  };
+  Jumped: {
+    kind: JumpKind;
+  };
+  SlideStarted: {
+    // Horizontal speed the slide starts with, boost included
+    speed: number;
+  };
+  SlideEnded: {
+    speed: number;
+  };
+  WallRunStarted: {
+    // Wall normal, pointing away from the wall
+    normal: VectorLike;
+  };
+  WallRunEnded: {
+    // Seconds spent on the wall
+    duration: number;
+  };
+  MantleStarted: {
+    // Height of the ledge above the player's feet
+    height: number;
+  };
+  // Sprinting stopped because stamina ran out
+  StaminaDepleted: Record<string, never>;
+  // Enough stamina is back to sprint again
+  StaminaRecovered: Record<string, never>;
+}
+
+export interface MovementConfig {
+  walkSpeed: number;
+  sprintMultiplier: number;
+  crouchMultiplier: number;
+  // Upward speed of a jump
+  jumpSpeed: number;
+  // Seconds between ground jumps
+  jumpCooldown: number;
+  // Speed change per second the player has over their direction in the air
+  airControl: number;
+  maxStamina: number;
+  // Stamina used per second of sprinting
+  sprintCost: number;
+  // Stamina regained per second once regenDelay has passed
+  staminaRegen: number;
+  // Seconds after the last sprint before stamina comes back
+  regenDelay: number;
+  // Stamina needed to sprint again after running out
+  sprintThreshold: number;
+  // Speed needed to turn a crouch into a slide
+  slideMinSpeed: number;
+  // Speed added when a slide starts
+  slideBoost: number;
+  // Speed lost per second of sliding on the ground
+  slideFriction: number;
+  // Jumps allowed in the air with the doubleJump ability
+  airJumps: number;
+  // Seconds a wall run lasts at most
+  wallRunDuration: number;
+  // Speed along the wall needed to start, and kept while running
+  wallRunMinSpeed: number;
+  // Gravity while wall running, usually much weaker than normal
+  wallRunGravity: number;
+  // Fastest fall while wall running
+  wallRunMaxSink: number;
+  // Speed away from the wall given by a wall jump
+  wallJumpPush: number;
+  // Upward speed while climbing a ledge
+  mantleClimbSpeed: number;
+  // Speed onto the ledge once high enough
+  mantleMoveSpeed: number;
+  // Seconds before a mantle that got stuck gives up
+  mantleTimeout: number;
+}
+
+/**
+ * A wall beside the player, see probeWall
+ */
+export interface WallContact {
+  // Pointing away from the wall, horizontal
+  normal: VectorLike;
+}
+
+/**
+ * A ledge the player can climb onto, see probeLedge
+ */
+export interface LedgeTarget {
+  // Where the body ends up standing on top
+  position: VectorLike;
+  // Height of the ledge above the player's feet
+  height: number;
+}
+
+export interface MovementInput {
+  // Wanted direction on the ground in world space, length 0 to 1
+  moveX: number;
+  moveZ: number;
+  sprint: boolean;
+  crouch: boolean;
+  jump: boolean;
+  grounded: boolean;
+  // False while something above a crouched player blocks standing up
+  canStand: boolean;
+  // Body position, followed while mantling
+  position: VectorLike;
+  // Only needed for abilities that are unlocked, null otherwise
+  wall: WallContact | null;
+  ledge: LedgeTarget | null;
+}
+
+const DEFAULT_CONFIG: MovementConfig = {
+  walkSpeed: 5,
+  sprintMultiplier: 1.6,
+  crouchMultiplier: 0.5,
+  jumpSpeed: 5,
+  jumpCooldown: 0.3,
+  airControl: 20,
+  maxStamina: 100,
+  sprintCost: 20,
+  staminaRegen: 25,
+  regenDelay: 0.8,
+  sprintThreshold: 25,
+  slideMinSpeed: 6,
+  slideBoost: 2,
+  slideFriction: 6,
+  airJumps: 1,
+  wallRunDuration: 1.5,
+  wallRunMinSpeed: 5,
+  wallRunGravity: 5,
+  wallRunMaxSink: 2,
+  wallJumpPush: 6,
+  mantleClimbSpeed: 5,
+  mantleMoveSpeed: 4,
+  mantleTimeout: 1,
+};
+
+// Fraction of speed kept per 1/60 s without input
+const STOP_DAMPING = 0.9;
+// Speed into the wall while wall running, keeps the wall probe touching it
+const WALL_STICK_SPEED = 1;
+// Walls this close in direction count as the same wall
+const SAME_WALL_DOT = 0.9;
+// How close to the mantle target counts as there
+const MANTLE_TOLERANCE = 0.05;
+
+/**
+ * Movement rules for the player, without React or physics
+ *
+ * `step` turns input into a velocity and moves between states: sprinting
+ * drains stamina, which has to recover past `sprintThreshold` once it runs
+ * out; pressing crouch while sprinting fast enough starts a slide, which
+ * keeps the direction it started in and loses speed to friction until it
+ * drops to crouching speed. Releasing crouch only stands up when `canStand`
+ * says there's room. In the air momentum carries and input only steers.
+ *
+ * Abilities are off until unlocked with `setAbilities`:
+ * - wallRun: running along a wall beside the player, for a limited time and
+ *   only once per wall until landing
+ * - wallJump: jumping off a wall in the air, or out of a wall run
+ * - mantle: holding jump into a ledge climbs onto it
+ * - doubleJump: `airJumps` extra jumps in the air
+ *
+ * The controller does the physics probes for walls and ledges, see
+ * movementProbes.ts. Listen on `events` for state changes and jumps, e.g.
+ * to play sounds. PlayerController sizes the collider and camera from
+ * `crouched`.
+ */
+export class PlayerMovement {
+  readonly config: MovementConfig;
+  readonly events = new EventBus<MovementEvents>();
+  private current: MovementState = "walking";
+  private abilities = new Set<MovementAbility>();
+  private staminaLeft: number;
+  private exhausted = false;
+  private regenTimer = 0;
+  private crouchHeld = false;
+  private jumpHeld = false;
+  private jumpTimer = 0;
+  private airJumpsLeft = 0;
+  private slideDirection = new Vector3();
+  private slideSpeed = 0;
+  private wallNormal = new Vector3();
+  private wallRunTime = 0;
+  private wallRunVelocityY = 0;
+  // Last wall run on or jumped off, can't be used again until landing
+  private lastWall: Vector3 | null = null;
+  private mantleTarget = new Vector3();
+  private mantleTime = 0;
+  private target = new Vector3();
+
+  constructor(config: Partial<MovementConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (!(this.config.maxStamina > 0)) {
+      throw new Error(`[Movement] maxStamina must be > 0, got ${this.config.maxStamina}`);
+    }
+    this.staminaLeft = this.config.maxStamina;
+  }
+
+  get state(): MovementState {
+    return this.current;
+  }
+
+  get stamina(): number {
+    return this.staminaLeft;
+  }
+
+  /**
+   * Whether the player should use the short collider and low camera
+   */
+  get crouched(): boolean {
+    return this.current === "crouching" || this.current === "sliding";
+  }
+
+  /**
+   * Replace the unlocked abilities
+   */
+  setAbilities(abilities: Iterable<MovementAbility>): void {
+    this.abilities = new Set(abilities);
+    if (this.current === "wallRunning" && !this.abilities.has("wallRun")) {
+      this.endWallRun();
+    }
+  }
+
+  hasAbility(ability: MovementAbility): boolean {
+    return this.abilities.has(ability);
+  }
+
+  /**
+   * Advance by `delta` seconds and update `velocity`
+   *
+   * `velocity` should hold the body's current velocity; y is only changed
+   * by jumps, wall runs and mantles, otherwise gravity keeps it.
+   */
+  step(input: MovementInput, velocity: Vector3, delta: number): void {
+    const crouchPressed = input.crouch && !this.crouchHeld;
+    const jumpPressed = input.jump && !this.jumpHeld;
+    this.crouchHeld = input.crouch;
+    this.jumpHeld = input.jump;
+    this.jumpTimer = Math.max(0, this.jumpTimer - delta);
+
+    if (input.grounded) {
+      this.airJumpsLeft = this.config.airJumps;
+      this.lastWall = null;
+    }
+
+    if (this.current === "mantling") {
+      this.stepMantle(input, velocity, delta);
+      return;
+    }
+
+    // Climbing beats jumping
+    if (input.jump && input.ledge && this.abilities.has("mantle") && !this.crouched) {
+      this.startMantle(input.ledge);
+      this.stepMantle(input, velocity, delta);
+      return;
+    }
+
+    if (this.current === "wallRunning") {
+      if (jumpPressed && this.abilities.has("wallJump")) {
+        this.endWallRun();
+        this.wallJump(this.wallNormal, velocity);
+        return;
+      }
+      if (this.stepWallRun(input, velocity, delta, crouchPressed)) return;
+    } else if (this.current === "sliding") {
+      this.stepSlide(input, delta);
+    } else {
+      this.updateState(input, velocity, crouchPressed);
+    }
+
+    this.updateStamina(delta);
+
+    if (this.canStartWallRun(input, velocity)) {
+      this.startWallRun(input.wall as WallContact, velocity);
+      this.stepWallRun(input, velocity, delta, false);
+      return;
+    }
+
+    if (this.updateJump(input, velocity, jumpPressed)) return;
+    this.updateHorizontal(input, velocity, delta);
+  }
+
+  /**
+   * Back to walking with full stamina, e.g. after a respawn
+   */
+  reset(): void {
+    this.setState("walking");
+    this.staminaLeft = this.config.maxStamina;
+    this.exhausted = false;
+    this.regenTimer = 0;
+    this.crouchHeld = false;
+    this.jumpHeld = false;
+    this.jumpTimer = 0;
+    this.slideSpeed = 0;
+    this.lastWall = null;
+  }
+
+  private updateState(
+    input: MovementInput,
+    velocity: Vector3,
+    crouchPressed: boolean
+  ): void {
+    const previous = this.current;
+    const speed = Math.hypot(velocity.x, velocity.z);
+    let state: MovementState = "walking";
+
+    if (
+      crouchPressed &&
+      previous === "sprinting" &&
+      input.grounded &&
+      speed >= this.config.slideMinSpeed
+    ) {
+      this.slideDirection.set(velocity.x, 0, velocity.z).normalize();
+      this.slideSpeed = speed + this.config.slideBoost;
+      this.setState("sliding");
+      this.events.dispatch("SlideStarted", { speed: this.slideSpeed });
+      return;
+    }
+
+    const moving = input.moveX !== 0 || input.moveZ !== 0;
+    if (input.crouch || (previous === "crouching" && !input.canStand)) {
+      state = "crouching";
+    } else if (
+      input.sprint &&
+      moving &&
+      !this.exhausted &&
+      this.staminaLeft > 0 &&
+      // No starting a sprint in mid air, but one can carry over a jump
+      (input.grounded || previous === "sprinting")
+    ) {
+      state = "sprinting";
+    }
+
+    this.setState(state);
+  }
+
+  private updateHorizontal(input: MovementInput, velocity: Vector3, delta: number): void {
+    if (this.current === "sliding") {
+      velocity.x = this.slideDirection.x * this.slideSpeed;
+      velocity.z = this.slideDirection.z * this.slideSpeed;
+      return;
+    }
+
+    const moving = input.moveX !== 0 || input.moveZ !== 0;
+    let speed = this.config.walkSpeed * this.speedMultiplier();
+
+    if (!input.grounded) {
+      if (!moving) return; // Momentum carries
+
+      // Steer towards the wanted direction, limited by air control, without
+      // braking below the speed carried in
+      speed = Math.max(speed, Math.hypot(velocity.x, velocity.z));
+      const change = this.target
+        .set(input.moveX * speed - velocity.x, 0, input.moveZ * speed - velocity.z)
+        .clampLength(0, this.config.airControl * delta);
+      velocity.x += change.x;
+      velocity.z += change.z;
+      return;
+    }
+
+    if (moving) {
+      velocity.x = input.moveX * speed;
+      velocity.z = input.moveZ * speed;
+    } else {
+      // Ease to a stop
+      const damping = Math.pow(STOP_DAMPING, delta * 60);
+      velocity.x *= damping;
+      velocity.z *= damping;
+      if (Math.abs(velocity.x) < 0.01) velocity.x = 0;
+      if (Math.abs(velocity.z) < 0.01) velocity.z = 0;
+    }
+  }
+
+  // Returns true if a jump took over the velocity this step
+  private updateJump(input: MovementInput, velocity: Vector3, jumpPressed: boolean): boolean {
+    const { jumpSpeed } = this.config;
+
+    // Holding jump keeps hopping on the ground
+    if (input.jump && input.grounded && this.jumpTimer <= 0) {
+      velocity.y = jumpSpeed;
+      this.jumpTimer = this.config.jumpCooldown;
+      this.events.dispatch("Jumped", { kind: "ground" });
+      return false;
+    }
+
+    if (!jumpPressed || input.grounded) return false;
+
+    if (input.wall && this.abilities.has("wallJump")) {
+      const normal = this.target.set(input.wall.normal.x, 0, input.wall.normal.z).normalize();
+      if (!this.isLastWall(normal)) {
+        this.wallJump(normal, velocity);
+        return true;
+      }
+    }
+
+    if (this.abilities.has("doubleJump") && this.airJumpsLeft > 0) {
+      this.airJumpsLeft--;
+      velocity.y = jumpSpeed;
+      this.events.dispatch("Jumped", { kind: "double" });
+    }
+    return false;
+  }
+
+  private wallJump(normal: Vector3, velocity: Vector3): void {
+    const { wallJumpPush, jumpSpeed } = this.config;
+
+    // Keep the speed along the wall, replace the rest with the push
+    const into = velocity.x * normal.x + velocity.z * normal.z;
+    velocity.x += normal.x * (wallJumpPush - into);
+    velocity.z += normal.z * (wallJumpPush - into);
+    velocity.y = jumpSpeed;
+
+    this.lastWall = normal.clone();
+    this.jumpTimer = this.config.jumpCooldown;
+    this.events.dispatch("Jumped", { kind: "wall" });
+  }
+
+  private canStartWallRun(input: MovementInput, velocity: Vector3): boolean {
+    const wall = input.wall;
+    if (!wall || input.grounded || !this.abilities.has("wallRun")) return false;
+    if (this.crouched || (input.moveX === 0 && input.moveZ === 0)) return false;
+
+    const normal = this.target.set(wall.normal.x, 0, wall.normal.z).normalize();
+    if (this.isLastWall(normal)) return false;
+
+    // Pushing away from the wall lets go of it
+    if (input.moveX * normal.x + input.moveZ * normal.z > 0.1) return false;
+
+    const into = velocity.x * normal.x + velocity.z * normal.z;
+    const along = Math.hypot(velocity.x - normal.x * into, velocity.z - normal.z * into);
+    return along >= this.config.wallRunMinSpeed;
+  }
+
+  private startWallRun(wall: WallContact, velocity: Vector3): void {
+    this.wallNormal.set(wall.normal.x, 0, wall.normal.z).normalize();
+    this.wallRunTime = 0;
+    // Some of the jump carries onto the wall, a fall is caught
+    this.wallRunVelocityY = MathUtils.clamp(velocity.y, 0, this.config.jumpSpeed / 2);
+    this.setState("wallRunning");
+    this.events.dispatch("WallRunStarted", { normal: wall.normal });
+  }
+
+  // Returns false once the wall run is over
+  private stepWallRun(
+    input: MovementInput,
+    velocity: Vector3,
+    delta: number,
+    crouchPressed: boolean
+  ): boolean {
+    const { wallRunDuration, wallRunMinSpeed, wallRunGravity, wallRunMaxSink } = this.config;
+    const normal = this.wallNormal;
+
+    if (input.wall) normal.set(input.wall.normal.x, 0, input.wall.normal.z).normalize();
+    const pushingAway = input.moveX * normal.x + input.moveZ * normal.z > 0.1;
+    const moving = input.moveX !== 0 || input.moveZ !== 0;
+
+    if (
+      !input.wall ||
+      input.grounded ||
+      crouchPressed ||
+      pushingAway ||
+      !moving ||
+      this.wallRunTime >= wallRunDuration
+    ) {
+      this.endWallRun();
+      return false;
+    }
+    this.wallRunTime += delta;
+
+    // Run along the wall, at least as fast as needed to start
+    const into = velocity.x * normal.x + velocity.z * normal.z;
+    const along = this.target.set(velocity.x - normal.x * into, 0, velocity.z - normal.z * into);
+    along.setLength(Math.max(along.length(), wallRunMinSpeed));
+
+    velocity.x = along.x - normal.x * WALL_STICK_SPEED;
+    velocity.z = along.z - normal.z * WALL_STICK_SPEED;
+    this.wallRunVelocityY = Math.max(
+      -wallRunMaxSink,
+      this.wallRunVelocityY - wallRunGravity * delta
+    );
+    velocity.y = this.wallRunVelocityY;
+    return true;
+  }
+
+  private endWallRun(): void {
+    this.lastWall = this.wallNormal.clone();
+    this.setState("walking");
+    this.events.dispatch("WallRunEnded", { duration: this.wallRunTime });
+  }
+
+  private isLastWall(normal: Vector3): boolean {
+    return this.lastWall !== null && this.lastWall.dot(normal) > SAME_WALL_DOT;
+  }
+
+  private startMantle(ledge: LedgeTarget): void {
+    const { x, y, z } = ledge.position;
+    this.mantleTarget.set(x, y, z);
+    this.mantleTime = 0;
+    this.setState("mantling");
+    this.events.dispatch("MantleStarted", { height: ledge.height });
+  }
+
+  // Straight up until high enough, then over onto the ledge
+  private stepMantle(input: MovementInput, velocity: Vector3, delta: number): void {
+    const { mantleClimbSpeed, mantleMoveSpeed, mantleTimeout } = this.config;
+    const { x, y, z } = input.position;
+    const target = this.mantleTarget;
+    this.mantleTime += delta;
+
+    const rise = target.y - y;
+    const distance = Math.hypot(target.x - x, target.z - z);
+
+    if (
+      (rise <= MANTLE_TOLERANCE && distance <= MANTLE_TOLERANCE) ||
+      this.mantleTime >= mantleTimeout
+    ) {
+      velocity.set(0, 0, 0);
+      this.setState("walking");
+      return;
+    }
+
+    if (rise > MANTLE_TOLERANCE) {
+      velocity.set(0, Math.min(mantleClimbSpeed, rise / delta), 0);
+      return;
+    }
+
+    const speed = Math.min(mantleMoveSpeed, distance / delta);
+    velocity.set(((target.x - x) / distance) * speed, 0, ((target.z - z) / distance) * speed);
+  }
+
+  private stepSlide(input: MovementInput, delta: number): void {
+    // Momentum is kept in the air, friction only works on the ground
+    if (input.grounded) {
+      this.slideSpeed = Math.max(0, this.slideSpeed - this.config.slideFriction * delta);
+    }
+
+    const crouchSpeed = this.config.walkSpeed * this.config.crouchMultiplier;
+    const cancelled = !input.crouch && input.canStand;
+    if (!cancelled && this.slideSpeed > crouchSpeed) return;
+
+    this.events.dispatch("SlideEnded", { speed: this.slideSpeed });
+    this.setState(cancelled ? "walking" : "crouching");
+  }
+
+  private updateStamina(delta: number): void {
+    const { maxStamina, sprintCost, staminaRegen, regenDelay, sprintThreshold } =
+      this.config;
+
+    if (this.current === "sprinting") {
+      this.staminaLeft = Math.max(0, this.staminaLeft - sprintCost * delta);
+      this.regenTimer = regenDelay;
+
+      if (this.staminaLeft === 0) {
+        this.exhausted = true;
+        this.setState("walking");
+        this.events.dispatch("StaminaDepleted", {});
+      }
+      return;
+    }
+
+    if (this.regenTimer > 0) {
+      this.regenTimer -= delta;
+      return;
+    }
+
+    this.staminaLeft = Math.min(maxStamina, this.staminaLeft + staminaRegen * delta);
+    if (this.exhausted && this.staminaLeft >= sprintThreshold) {
+      this.exhausted = false;
+      this.events.dispatch("StaminaRecovered", {});
+    }
+  }
+
+  private speedMultiplier(): number {
+    switch (this.current) {
+      case "sprinting":
+        return this.config.sprintMultiplier;
+      case "crouching":
+        return this.config.crouchMultiplier;
+      default:
+        return 1;
+    }
+  }
+
+  private setState(state: MovementState): void {
+    const previous = this.current;
+    if (state === previous) return;
+
+    this.current = state;
+    this.events.dispatch("StateChanged", { state, previous });
+  }
+}
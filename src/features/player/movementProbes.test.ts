@@ -0,0 +1,110 @@
+import RAPIER, { RigidBody, World } from "@dimforge/rapier3d-compat";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { collisionGroups } from "../core/physics/collisionLayers";
+import { PhysicsQueries } from "../core/physics/physicsQueries";
+import { LedgeLimits, PlayerShape, probeLedge, probeWall } from "./movementProbes";
+
+// Standing with the feet at y = 0 and the body's origin a meter up
+const SHAPE: PlayerShape = { radius: 0.4, feet: -1, height: 2 };
+const LIMITS: LedgeLimits = { minHeight: 0.5, maxHeight: 1.6 };
+const FORWARD = { x: 0, y: 0, z: -1 };
+
+describe("movement probes", () => {
+  let world: World;
+  let queries: PhysicsQueries;
+  let player: RigidBody;
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    world = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+    queries = new PhysicsQueries(world, RAPIER);
+
+    player = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(0, 1, 0));
+    world.createCollider(
+      RAPIER.ColliderDesc.capsule(0.6, SHAPE.radius).setCollisionGroups(collisionGroups("player")),
+      player
+    );
+  });
+
+  function addBlock(center: [number, number, number], half: [number, number, number]) {
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(...center));
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(...half).setCollisionGroups(collisionGroups("world")),
+      body
+    );
+  }
+
+  // A block in front of the player, its near face half a meter away
+  function addLedge(height: number) {
+    addBlock([0, height / 2, -1.5], [1, height / 2, 1]);
+  }
+
+  function ledge() {
+    // Queries only see colliders once the world has stepped
+    world.step();
+    player.setTranslation({ x: 0, y: 1, z: 0 }, true);
+    world.updateSceneQueries();
+    return probeLedge(queries, player, FORWARD, SHAPE, LIMITS);
+  }
+
+  describe("probeLedge", () => {
+    it("finds a ledge within the height limits and stands on top of it", () => {
+      addLedge(1);
+
+      const target = ledge();
+
+      expect(target).not.toBeNull();
+      expect(target!.height).toBeCloseTo(1, 3);
+      // Feet just above the top, a bit past the edge
+      expect(target!.position.y + SHAPE.feet).toBeCloseTo(1.05, 3);
+      expect(target!.position.z).toBeLessThan(-0.5);
+    });
+
+    it("ignores ledges low enough to jump onto", () => {
+      addLedge(0.3);
+
+      expect(ledge()).toBeNull();
+    });
+
+    it("ignores ledges too high to reach", () => {
+      addLedge(2);
+
+      expect(ledge()).toBeNull();
+    });
+
+    it("needs room to stand on top", () => {
+      addLedge(1);
+      // A ceiling a meter above the ledge
+      addBlock([0, 2, -1.5], [1, 0.05, 1]);
+
+      expect(ledge()).toBeNull();
+    });
+  });
+
+  describe("probeWall", () => {
+    function wall() {
+      world.step();
+      player.setTranslation({ x: 0, y: 1, z: 0 }, true);
+      world.updateSceneQueries();
+      return probeWall(queries, player, FORWARD, SHAPE);
+    }
+
+    it("finds a wall beside the player, facing them", () => {
+      addBlock([-0.8, 1, 0], [0.2, 2, 3]);
+
+      const contact = wall();
+
+      expect(contact?.normal.x).toBeCloseTo(1, 6);
+      expect(contact?.normal.z).toBeCloseTo(0, 6);
+    });
+
+    it("ignores walls out of reach", () => {
+      addBlock([-2, 1, 0], [0.2, 2, 3]);
+
+      expect(wall()).toBeNull();
+    });
+  });
+});
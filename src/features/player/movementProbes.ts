@@ -0,0 +1,134 @@
+import type { RigidBody } from "@dimforge/rapier3d-compat";
+import { Vector3 } from "three";
+import { PhysicsQueries, QueryOptions, VectorLike } from "../core/physics/physicsQueries";
+import { LedgeTarget, WallContact } from "./movement";
+
+/**
+ * Size of the player's standing capsule, relative to the body's origin
+ */
+export interface PlayerShape {
+  radius: number;
+  // Height of the feet, negative when they're below the origin
+  feet: number;
+  // Full height, feet to top
+  height: number;
+}
+
+export interface LedgeLimits {
+  // Lower ledges are just jumped onto
+  minHeight: number;
+  maxHeight: number;
+}
+
+// How far past the capsule a wall can be and still count as touching
+const WALL_REACH = 0.25;
+// How far ahead of the capsule a ledge is looked for
+const LEDGE_REACH = 0.4;
+// Surfaces steeper than this count as walls, flatter ones as floors
+const WALL_MAX_NORMAL_Y = 0.3;
+const FLOOR_MIN_NORMAL_Y = 0.7;
+// Gap left under the feet when placed on a ledge
+const LEDGE_CLEARANCE = 0.05;
+
+/**
+ * Nearest wall to the left or right of `direction`, for wall running and
+ * wall jumps; null when there's none or `direction` is vertical
+ *
+ * Only level geometry counts as a wall.
+ */
+export function probeWall(
+  queries: PhysicsQueries,
+  body: RigidBody,
+  direction: VectorLike,
+  shape: PlayerShape
+): WallContact | null {
+  const side = new Vector3(-direction.z, 0, direction.x);
+  if (side.lengthSq() < 1e-6) return null;
+  side.normalize();
+
+  const origin = body.translation();
+  const options = worldOnly(body);
+  let nearest: WallContact | null = null;
+  let nearestDistance = Infinity;
+
+  for (const sign of [1, -1]) {
+    const hit = queries.raycast(
+      origin,
+      side.clone().multiplyScalar(sign),
+      shape.radius + WALL_REACH,
+      options
+    );
+    if (!hit || Math.abs(hit.normal.y) > WALL_MAX_NORMAL_Y) continue;
+
+    if (hit.distance < nearestDistance) {
+      nearestDistance = hit.distance;
+      nearest = { normal: { x: hit.normal.x, y: 0, z: hit.normal.z } };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * A ledge straight ahead in `direction` that the player can climb onto
+ *
+ * Something has to block the way at `minHeight` above the feet, its top
+ * has to be flat and no higher than `maxHeight`, and there has to be room
+ * for the standing capsule on it. Returns where the body should end up.
+ */
+export function probeLedge(
+  queries: PhysicsQueries,
+  body: RigidBody,
+  direction: VectorLike,
+  shape: PlayerShape,
+  limits: LedgeLimits
+): LedgeTarget | null {
+  const forward = new Vector3(direction.x, 0, direction.z);
+  if (forward.lengthSq() < 1e-6) return null;
+  forward.normalize();
+
+  const { x, y, z } = body.translation();
+  const feet = y + shape.feet;
+  const options = worldOnly(body);
+
+  // Something in the way at knee height
+  const front = queries.raycast(
+    { x, y: feet + limits.minHeight, z },
+    forward,
+    shape.radius + LEDGE_REACH,
+    options
+  );
+  if (!front || Math.abs(front.normal.y) > WALL_MAX_NORMAL_Y) return null;
+
+  // Its top, where the middle of the capsule would stand
+  const standX = front.point.x + forward.x * (shape.radius + 0.1);
+  const standZ = front.point.z + forward.z * (shape.radius + 0.1);
+  const top = queries.raycast(
+    { x: standX, y: feet + limits.maxHeight, z: standZ },
+    { x: 0, y: -1, z: 0 },
+    limits.maxHeight - limits.minHeight,
+    options
+  );
+  // Rays starting inside something report no normal, so too high is caught too
+  if (!top || top.normal.y < FLOOR_MIN_NORMAL_Y) return null;
+
+  // Room to stand, narrower so walls next to the spot don't count
+  const radius = shape.radius * 0.9;
+  const blocked = queries.sphereCast(
+    { x: standX, y: top.point.y + LEDGE_CLEARANCE + radius, z: standZ },
+    radius,
+    { x: 0, y: 1, z: 0 },
+    shape.height - radius * 2,
+    { layer: "player", exclude: [body] }
+  );
+  if (blocked) return null;
+
+  return {
+    position: { x: standX, y: top.point.y + LEDGE_CLEARANCE - shape.feet, z: standZ },
+    height: top.point.y - feet,
+  };
+}
+
+function worldOnly(body: RigidBody): QueryOptions {
+  return { layer: "player", mask: ["world"], exclude: [body] };
+}
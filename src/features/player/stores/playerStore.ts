@@ -1,4 +1,5 @@
 import { create } from "zustand";
+import { MovementAbility, MovementState } from "../movement";
 
 interface PlayerState {
   // Health system
@@ -27,6 +28,13 @@ interface PlayerState {
   position: [number, number, number];
   items: string[];
   
+  // Movement, kept up to date by PlayerController
+  stamina: number;
+  maxStamina: number;
+  movementState: MovementState;
+  // Movement abilities from the loadout; levels can add more, see LevelData
+  abilities: MovementAbility[];
+  
   // Actions
   setHealth: (health: number) => void;
   takeDamage: (amount: number) => void;
@@ -45,8 +53,16 @@ interface PlayerState {
   addItem: (item: string) => void;
   removeItem: (item: string) => void;
   hasItem: (item: string) => boolean;
+  setStamina: (stamina: number, maxStamina?: number) => void;
+  setMovementState: (movementState: MovementState) => void;
+  unlockAbility: (ability: MovementAbility) => void;
+  lockAbility: (ability: MovementAbility) => void;
+  setAbilities: (abilities: MovementAbility[]) => void;
 }
 
+// Nothing is unlocked up front, levels and unlocks grant abilities
+const DEFAULT_ABILITIES: MovementAbility[] = [];
+
 export const usePlayerStore = create<PlayerState>()((set, get) => ({
   // Initial health values
   health: 100,
@@ -74,6 +90,12 @@ export const usePlayerStore = create<PlayerState>()((set, get) => ({
   position: [0, 2, 0],
   items: [],
   
+  // Initial movement values
+  stamina: 100,
+  maxStamina: 100,
+  movementState: "walking",
+  abilities: DEFAULT_ABILITIES,
+  
   // Actions
   setHealth: (health) => set((state) => {
     const isDead = health <= 0;
@@ -165,7 +187,11 @@ export const usePlayerStore = create<PlayerState>()((set, get) => ({
       score: 0,
       enemiesKilled: 0,
       position: [0, 2, 0],
-      items: []
+      items: [],
+      stamina: 100,
+      maxStamina: 100,
+      movementState: "walking",
+      abilities: DEFAULT_ABILITIES
     });
   },
   
@@ -184,5 +210,27 @@ export const usePlayerStore = create<PlayerState>()((set, get) => ({
   
   hasItem: (item) => {
     return get().items.includes(item);
-  }
+  },
+  
+  setStamina: (stamina, maxStamina) => set((state) => ({
+    stamina,
+    maxStamina: maxStamina ?? state.maxStamina
+  })),
+  
+  setMovementState: (movementState) => set({
+    movementState
+  }),
+  
+  unlockAbility: (ability) => set((state) => {
+    if (state.abilities.includes(ability)) return state;
+    return { abilities: [...state.abilities, ability] };
+  }),
+  
+  lockAbility: (ability) => set((state) => ({
+    abilities: state.abilities.filter(a => a !== ability)
+  })),
+  
+  setAbilities: (abilities) => set({
+    abilities
+  })
 }));
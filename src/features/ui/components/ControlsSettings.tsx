@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import {
+  ACTION_LABELS,
+  Binding,
+  DEFAULT_BINDINGS,
+  INPUT_CONTEXTS,
+  InputAction,
+  InputContext,
+  formatBinding,
+  inputActions,
+  isGamepadBinding,
+} from "../../core/input/actions";
+import { exportBindings, importBindings } from "../../core/input/bindingStorage";
+import { GamepadSettings, ResponseCurve, gamepadInput } from "../../core/input/gamepad";
+import { useBindingLabel } from "../../core/input/useBindingLabel";
+
+type Device = "keyboard" | "gamepad";
+
+// Bindings shown per action and device: primary and alternate key, one button
+const SLOTS: [Device, number][] = [
+  ["keyboard", 0],
+  ["keyboard", 1],
+  ["gamepad", 0],
+];
+
+interface Capture {
+  action: InputAction;
+  device: Device;
+  slot: number;
+}
+
+function splitBindings(bindings: readonly Binding[]): Record<Device, Binding[]> {
+  return {
+    keyboard: bindings.filter((binding) => !isGamepadBinding(binding)),
+    gamepad: bindings.filter(isGamepadBinding),
+  };
+}
+
+// Replace (or with null, remove) one binding of an action
+function setSlot(
+  context: InputContext,
+  { action, device, slot }: Capture,
+  binding: Binding | null
+): void {
+  const split = splitBindings(inputActions.getBindings(action, context));
+  const bindings = [...split[device]];
+  if (binding) {
+    bindings[slot] = binding;
+  } else {
+    bindings.splice(slot, 1);
+  }
+  // Drop empty slots and duplicates of the new binding
+  split[device] = bindings.filter((b, i) => b && (b !== binding || i === slot));
+  inputActions.setBindings(action, [...split.keyboard, ...split.gamepad], context);
+}
+
+/**
+ * Controls tab of the main menu: rebinding, reset and import/export
+ */
+export function ControlsSettings() {
+  // Re-render on binding changes
+  useBindingLabel();
+
+  const [context, setContext] = useState<InputContext>("gameplay");
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [transfer, setTransfer] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(
+    null
+  );
+  const [pad, setPad] = useState<GamepadSettings>(() => gamepadInput.getSettings());
+
+  // Listen for the next key, mouse or gamepad button while capturing
+  useEffect(() => {
+    if (!capture) return;
+
+    const assign = (binding: Binding) => {
+      setSlot(context, capture, binding);
+      setCapture(null);
+    };
+
+    // Capture phase on window runs before the action map's listeners
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code === "Escape") {
+        setCapture(null);
+      } else if (capture.device === "keyboard") {
+        assign(event.code);
+      }
+    };
+
+    if (capture.device === "gamepad") {
+      const stopGamepad = gamepadInput.onButtonDown((button) => assign(`Pad${button}`));
+      window.addEventListener("keydown", handleKeyDown, true);
+      return () => {
+        stopGamepad();
+        window.removeEventListener("keydown", handleKeyDown, true);
+      };
+    }
+
+    const handleMouseDown = (event: MouseEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      assign(`Mouse${event.button}`);
+    };
+    const handleWheel = (event: WheelEvent) => {
+      if (event.deltaY === 0) return;
+      event.stopPropagation();
+      assign(event.deltaY < 0 ? "WheelUp" : "WheelDown");
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    window.addEventListener("mousedown", handleMouseDown, true);
+    window.addEventListener("wheel", handleWheel, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      window.removeEventListener("mousedown", handleMouseDown, true);
+      window.removeEventListener("wheel", handleWheel, true);
+    };
+  }, [capture, context]);
+
+  const updatePad = (settings: Partial<GamepadSettings>) => {
+    gamepadInput.setSettings(settings);
+    setPad(gamepadInput.getSettings());
+  };
+
+  const handleImport = () => {
+    try {
+      importBindings(transfer);
+      setMessage({ text: "Bindings imported", error: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    }
+  };
+
+  const handleExport = () => {
+    const json = exportBindings();
+    setTransfer(json);
+    navigator.clipboard?.writeText(json).then(
+      () => setMessage({ text: "Bindings copied to clipboard", error: false }),
+      () => setMessage({ text: "Bindings exported below", error: false })
+    );
+  };
+
+  // Actions the context uses by default, plus any the player bound there
+  const actions = (Object.keys(ACTION_LABELS) as InputAction[]).filter(
+    (action) =>
+      action in DEFAULT_BINDINGS[context] ||
+      inputActions.getBindings(action, context).length > 0
+  );
+
+  return (
+    <div className="text-left">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white">Controls</h2>
+        <select
+          value={context}
+          onChange={(e) => setContext(e.target.value as InputContext)}
+          className="bg-gray-800 text-white p-2 rounded"
+        >
+          {INPUT_CONTEXTS.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto mb-4 pr-2">
+        {actions.map((action) => {
+          const bindings = inputActions.getBindings(action, context);
+          const split = splitBindings(bindings);
+          const conflicts = bindings.flatMap((binding) =>
+            inputActions
+              .findConflicts(binding, context, action)
+              .map((other) => `${formatBinding(binding)} is also ${ACTION_LABELS[other]}`)
+          );
+
+          return (
+            <div key={action} className="mb-2">
+              <div className="flex items-center">
+                <span className="text-gray-300 w-40">{ACTION_LABELS[action]}</span>
+                {SLOTS.map(([device, slot]) => {
+                  const isCapturing =
+                    capture?.action === action &&
+                    capture.device === device &&
+                    capture.slot === slot;
+                  const binding = split[device][slot];
+                  return (
+                    <button
+                      key={`${device}${slot}`}
+                      onClick={() => setCapture({ action, device, slot })}
+                      onContextMenu={(e) => {
+                        e.preventDefault();
+                        setSlot(context, { action, device, slot }, null);
+                      }}
+                      title="Click to rebind, right click to clear"
+                      className={`${device === "gamepad" ? "w-24" : "w-28"} mr-2 px-2 py-1 rounded text-sm ${
+                        isCapturing
+                          ? "bg-red-600 text-white"
+                          : "bg-gray-800 text-white hover:bg-gray-700"
+                      }`}
+                    >
+                      {isCapturing
+                        ? device === "gamepad"
+                          ? "Press a button..."
+                          : "Press a key..."
+                        : binding
+                        ? formatBinding(binding)
+                        : "-"}
+                    </button>
+                  );
+                })}
+              </div>
+              {conflicts.map((conflict) => (
+                <div key={conflict} className="text-yellow-400 text-xs ml-40">
+                  ⚠ {conflict}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <h3 className="text-lg font-bold text-white mb-2">Controller</h3>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-4 text-sm text-gray-300">
+        <label className="flex items-center justify-between">
+          Move deadzone
+          <input
+            type="range"
+            min="0"
+            max="0.5"
+            step="0.01"
+            value={pad.move.deadzone}
+            onChange={(e) => updatePad({ move: { ...pad.move, deadzone: Number(e.target.value) } })}
+            className="w-24"
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          Look deadzone
+          <input
+            type="range"
+            min="0"
+            max="0.5"
+            step="0.01"
+            value={pad.look.deadzone}
+            onChange={(e) => updatePad({ look: { ...pad.look, deadzone: Number(e.target.value) } })}
+            className="w-24"
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          Look speed
+          <input
+            type="range"
+            min="1"
+            max="8"
+            step="0.5"
+            value={pad.lookSensitivity.x}
+            onChange={(e) => {
+              const x = Number(e.target.value);
+              // Vertical stays proportionally slower than horizontal
+              const ratio = pad.lookSensitivity.y / pad.lookSensitivity.x;
+              updatePad({ lookSensitivity: { x, y: x * ratio } });
+            }}
+            className="w-24"
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          Look curve
+          <select
+            value={pad.look.curve}
+            onChange={(e) =>
+              updatePad({ look: { ...pad.look, curve: e.target.value as ResponseCurve } })
+            }
+            className="bg-gray-800 text-white p-1 rounded w-24"
+          >
+            <option value="linear">Linear</option>
+            <option value="quadratic">Quadratic</option>
+            <option value="cubic">Cubic</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={pad.invertY}
+            onChange={(e) => updatePad({ invertY: e.target.checked })}
+          />
+          Invert look
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={pad.aimAssist}
+            onChange={(e) => updatePad({ aimAssist: e.target.checked })}
+          />
+          Aim assist
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={pad.rumble}
+            onChange={(e) => updatePad({ rumble: e.target.checked })}
+          />
+          Rumble
+        </label>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={() => inputActions.resetBindings(context)}
+          className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded"
+        >
+          Reset {context}
+        </button>
+        <button
+          onClick={() => inputActions.resetBindings()}
+          className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded"
+        >
+          Reset all
+        </button>
+        <button
+          onClick={handleExport}
+          className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded"
+        >
+          Export
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!transfer.trim()}
+          className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded disabled:opacity-50"
+        >
+          Import
+        </button>
+      </div>
+
+      <textarea
+        value={transfer}
+        onChange={(e) => setTransfer(e.target.value)}
+        placeholder="Paste exported bindings JSON here to import"
+        className="w-full h-20 bg-gray-800 text-white p-2 rounded text-xs font-mono"
+      />
+      {message && (
+        <div className={message.error ? "text-red-400 text-sm" : "text-green-400 text-sm"}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
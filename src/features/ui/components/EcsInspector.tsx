@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { ECS } from "../../core/ecs/ecs";
+import { FrameDebugger } from "../../core/loop/frameDebugger";
+import { ComponentName, Entity } from "../../core/ecs/types";
+
+interface EcsInspectorProps {
+  ecs: ECS;
+  frameDebugger?: FrameDebugger | null;
+  refreshInterval?: number; // ms between overlay refreshes
+}
+
+/**
+ * Dev overlay listing system costs, query sizes and live entities
+ *
+ * Component values of the selected entity can be edited in place; edits
+ * write straight into the component object the systems read.
+ */
+export function EcsInspector({
+  ecs,
+  frameDebugger,
+  refreshInterval = 250,
+}: EcsInspectorProps) {
+  const [, setRefresh] = useState(0);
+  const [tab, setTab] = useState<"systems" | "entities">("systems");
+  const [filter, setFilter] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Re-render periodically, the ECS itself isn't reactive
+  useEffect(() => {
+    const interval = setInterval(() => setRefresh((n) => n + 1), refreshInterval);
+    return () => clearInterval(interval);
+  }, [refreshInterval]);
+
+  const world = ecs.getWorld();
+  const frame = ecs.profiler.getFrameTiming();
+  const stepStatus = frameDebugger?.getStatus();
+  const timings = new Map(
+    ecs.profiler.getSystemTimings().map((timing) => [timing.name, timing])
+  );
+
+  let order: ReturnType<ECS["getSystemOrder"]> = [];
+  let scheduleError: string | null = null;
+  try {
+    order = ecs.getSystemOrder();
+  } catch (error) {
+    scheduleError = (error as Error).message;
+  }
+
+  const filteredEntities = world.entities.filter((entity) =>
+    filter
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .every((component) => component in entity || entity.id.includes(component))
+  );
+  const selected = selectedId ? world.get(selectedId) : undefined;
+
+  return (
+    <div className="absolute top-16 right-2 w-96 max-h-[80vh] overflow-y-auto bg-black bg-opacity-80 text-white p-2 text-xs font-mono pointer-events-auto rounded">
+      <div className="flex justify-between mb-2">
+        <span className="font-bold">ECS Inspector</span>
+        <span>
+          {frame.lastMs.toFixed(2)}ms (avg {frame.averageMs.toFixed(2)}, max{" "}
+          {frame.maxMs.toFixed(2)})
+        </span>
+      </div>
+
+      {stepStatus && (
+        <div className="mb-2 text-gray-300">
+          {stepStatus.paused ? "paused" : `${stepStatus.speed}x`} · tick{" "}
+          {stepStatus.tick}/{stepStatus.latestTick} · {stepStatus.historyTicks}{" "}
+          ticks of history
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-2">
+        {(["systems", "entities"] as const).map((name) => (
+          <button
+            key={name}
+            onClick={() => setTab(name)}
+            className={`px-2 py-0.5 rounded ${
+              tab === name ? "bg-red-600" : "bg-gray-700 hover:bg-gray-600"
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {tab === "systems" && (
+        <>
+          {scheduleError && <div className="text-red-400 mb-2">{scheduleError}</div>}
+          <table className="w-full mb-3">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th>system</th>
+                <th>phase</th>
+                <th className="text-right">last</th>
+                <th className="text-right">avg</th>
+                <th className="text-right">max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.map(({ name, phase }) => {
+                const timing = timings.get(name);
+                return (
+                  <tr key={name}>
+                    <td>{name}</td>
+                    <td className="text-gray-400">{phase}</td>
+                    <td className="text-right">{timing?.lastMs.toFixed(2) ?? "-"}</td>
+                    <td className="text-right">{timing?.averageMs.toFixed(2) ?? "-"}</td>
+                    <td className="text-right">{timing?.maxMs.toFixed(2) ?? "-"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="text-gray-400 mb-1">
+            queries ({world.entities.length} entities)
+          </div>
+          <table className="w-full">
+            <tbody>
+              {world.getQueryStats().map(({ components, size }) => (
+                <tr key={components.join("|")}>
+                  <td>{components.join(", ")}</td>
+                  <td className="text-right">{size}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {tab === "entities" && (
+        <>
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="filter by component or id"
+            className="w-full mb-2 px-1 bg-gray-800 text-white"
+          />
+          <div className="max-h-40 overflow-y-auto mb-2">
+            {filteredEntities.map((entity) => (
+              <div
+                key={entity.id}
+                onClick={() => setSelectedId(entity.id)}
+                className={`cursor-pointer truncate ${
+                  entity.id === selectedId ? "text-red-400" : "hover:text-gray-300"
+                }`}
+              >
+                {entity.id}{" "}
+                <span className="text-gray-400">
+                  [{Object.keys(entity).filter((key) => key !== "id").join(", ")}]
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {selected && <EntityEditor key={selected.id} entity={selected} />}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Editable view of every component on an entity
+ */
+function EntityEditor({ entity }: { entity: Entity }) {
+  const components = Object.keys(entity).filter(
+    (key) => key !== "id"
+  ) as ComponentName[];
+
+  return (
+    <div className="border-t border-gray-600 pt-2">
+      <div className="font-bold mb-1 truncate">{entity.id}</div>
+      {components.map((name) => (
+        <div key={name} className="mb-2">
+          <div className="text-red-400">{name}</div>
+          {Object.entries(entity[name] as object).map(([field, value]) => (
+            <FieldEditor
+              key={field}
+              label={field}
+              value={value}
+              onChange={(next) => {
+                (entity[name] as unknown as Record<string, unknown>)[field] = next;
+              }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Input for a single component field, based on its current value type
+ */
+function FieldEditor({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  const inputClass = "w-16 px-1 bg-gray-800 text-white";
+
+  // Inputs are uncontrolled; re-key them on value changes so live values show,
+  // except while the user is typing into one
+  const [editing, setEditing] = useState(false);
+
+  let input;
+  if (typeof value === "number") {
+    input = (
+      <input
+        type="number"
+        step="any"
+        defaultValue={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className={inputClass}
+      />
+    );
+  } else if (typeof value === "boolean") {
+    input = (
+      <input
+        type="checkbox"
+        defaultChecked={value}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+    );
+  } else if (typeof value === "string") {
+    input = (
+      <input
+        defaultValue={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-32 px-1 bg-gray-800 text-white"
+      />
+    );
+  } else if (Array.isArray(value) && value.every((n) => typeof n === "number")) {
+    input = (
+      <span className="flex gap-1">
+        {value.map((n, index) => (
+          <input
+            key={index}
+            type="number"
+            step="any"
+            defaultValue={n}
+            onChange={(e) => {
+              // Arrays are edited in place so systems holding a reference see it
+              value[index] = parseFloat(e.target.value) || 0;
+            }}
+            className={inputClass}
+          />
+        ))}
+      </span>
+    );
+  } else {
+    input = <span className="text-gray-400 truncate">{JSON.stringify(value)}</span>;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-gray-300">{label}</span>
+      <span
+        key={editing ? "editing" : JSON.stringify(value)}
+        onFocus={() => setEditing(true)}
+        onBlur={() => setEditing(false)}
+      >
+        {input}
+      </span>
+    </div>
+  );
+}
@@ -20,6 +20,10 @@ export function EnhancedHUD({ showCrosshair = true, showObjective = true }: Enha
   const enemiesKilledRef = useRef(usePlayerStore.getState().enemiesKilled);
   const isDeadRef = useRef(usePlayerStore.getState().isDead);
   
+  // Stamina changes while sprinting, so it re-renders the HUD
+  const stamina = usePlayerStore((state) => state.stamina);
+  const maxStamina = usePlayerStore((state) => state.maxStamina);
+  
   // Game state refs
   const showHUDRef = useRef(useGameStore.getState().showHUD);
   const currentLevelRef = useRef(useGameStore.getState().currentLevel);
@@ -188,6 +192,16 @@ export function EnhancedHUD({ showCrosshair = true, showObjective = true }: Enha
             style={{ width: `${(armor / maxArmor) * 100}%` }}
           ></div>
         </div>
+        
+        {/* Stamina bar, only while it isn't full */}
+        {stamina < maxStamina && (
+          <div className="bg-gray-900 bg-opacity-50 h-2 rounded-full overflow-hidden mt-2">
+            <div
+              className="bg-yellow-400 h-full"
+              style={{ width: `${(stamina / maxStamina) * 100}%` }}
+            ></div>
+          </div>
+        )}
       </div>
 
       {/* Ammo counter */}
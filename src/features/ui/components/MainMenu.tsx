@@ -2,6 +2,9 @@ import { useState, useEffect } from "react";
 import { useGameStore } from "../../../stores/gameStore";
 import { useLevelManager } from "../../levels/LevelManager";
 import { usePlayerStore } from "../../player/stores/playerStore";
+import { moveKeysLabel, useBindingLabel } from "../../core/input/useBindingLabel";
+import { ControlsSettings } from "./ControlsSettings";
+import { ATTRACT_DEMO } from "../../core/input/attractDemo";
 
 interface MainMenuProps {
   onStartGame: () => void;
@@ -16,7 +19,8 @@ export function MainMenu({
   onRestartGame, 
   isGameStarted 
 }: MainMenuProps) {
-  const [activeTab, setActiveTab] = useState<'main' | 'levels' | 'settings'>('main');
+  const [activeTab, setActiveTab] = useState<'main' | 'levels' | 'settings' | 'controls'>('main');
+  const bindingLabel = useBindingLabel();
   const isDead = usePlayerStore(state => state.isDead);
   const score = usePlayerStore(state => state.score);
   const enemiesKilled = usePlayerStore(state => state.enemiesKilled);
@@ -26,6 +30,7 @@ export function MainMenu({
   const unlockedLevels = useLevelManager(state => state.levelsUnlocked);
   const currentLevelId = useLevelManager(state => state.currentLevelId);
   const setCurrentLevel = useLevelManager(state => state.setCurrentLevel);
+  const ecs = useGameStore(state => state.ecs);
   
   // Start a specific level
   const handleLevelSelect = (levelId: string) => {
@@ -33,6 +38,14 @@ export function MainMenu({
     onStartGame();
   };
   
+  // Attract mode: a demo plays behind the menu until the game starts
+  useEffect(() => {
+    if (isGameStarted || !ecs) return;
+
+    useGameStore.getState().playInputRecording(ATTRACT_DEMO, true);
+    return () => useGameStore.getState().stopInputPlayback();
+  }, [isGameStarted, ecs]);
+  
   // Reset focus when menu opens (accessibility)
   useEffect(() => {
     const mainButton = document.getElementById('main-menu-button');
@@ -70,7 +83,7 @@ export function MainMenu({
             Levels
           </button>
           <button
-            className={`px-4 py-2 font-semibold ${
+            className={`px-4 py-2 mr-2 font-semibold ${
               activeTab === 'settings' 
                 ? 'text-red-500 border-b-2 border-red-500' 
                 : 'text-gray-400 hover:text-white'
@@ -79,6 +92,16 @@ export function MainMenu({
           >
             Settings
           </button>
+          <button
+            className={`px-4 py-2 font-semibold ${
+              activeTab === 'controls' 
+                ? 'text-red-500 border-b-2 border-red-500' 
+                : 'text-gray-400 hover:text-white'
+            }`}
+            onClick={() => setActiveTab('controls')}
+          >
+            Controls
+          </button>
         </div>
         
         {/* Main tab */}
@@ -129,13 +152,13 @@ export function MainMenu({
             <div className="mt-8 text-gray-400 text-sm">
               <p className="text-white text-lg mb-2">Controls:</p>
               <div className="grid grid-cols-2 gap-2 text-left max-w-md mx-auto">
-                <div>WASD</div><div>Move</div>
-                <div>SPACE</div><div>Jump</div>
-                <div>SHIFT</div><div>Sprint</div>
-                <div>CTRL</div><div>Slide</div>
+                <div>{moveKeysLabel(bindingLabel)}</div><div>Move</div>
+                <div>{bindingLabel("jump")}</div><div>Jump</div>
+                <div>{bindingLabel("sprint")}</div><div>Sprint</div>
+                <div>{bindingLabel("crouch")}</div><div>Slide</div>
                 <div>MOUSE</div><div>Aim</div>
-                <div>LEFT CLICK</div><div>Shoot</div>
-                <div>R</div><div>Reload</div>
+                <div>{bindingLabel("fire")}</div><div>Shoot</div>
+                <div>{bindingLabel("reload")}</div><div>Reload</div>
                 <div>ESC</div><div>Menu</div>
               </div>
             </div>
@@ -179,6 +202,9 @@ export function MainMenu({
           </div>
         )}
         
+        {/* Controls tab */}
+        {activeTab === 'controls' && <ControlsSettings />}
+        
         {/* Settings tab */}
         {activeTab === 'settings' && (
           <div>
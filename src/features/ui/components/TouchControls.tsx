@@ -0,0 +1,307 @@
+import { useEffect, useRef, useState, PointerEvent as ReactPointerEvent } from "react";
+import {
+  DEFAULT_TOUCH_LAYOUT,
+  TOUCH_BUTTONS,
+  TouchButton,
+  TouchLayout,
+  TouchPlacement,
+  loadTouchLayout,
+  saveTouchLayout,
+  touchInput,
+} from "../../core/input/touchControls";
+
+const BUTTON_LABELS: Record<TouchButton, string> = {
+  fire: "FIRE",
+  jump: "JUMP",
+  reload: "R",
+  weaponNext: "SWAP",
+};
+
+type Control = "stick" | TouchButton;
+
+interface StickDrag {
+  pointerId: number;
+  centerX: number;
+  centerY: number;
+}
+
+// Style that centers a control on its placement
+function placementStyle(placement: TouchPlacement, opacity: number) {
+  return {
+    left: `${placement.x * 100}%`,
+    top: `${placement.y * 100}%`,
+    width: placement.size,
+    height: placement.size,
+    marginLeft: -placement.size / 2,
+    marginTop: -placement.size / 2,
+    opacity,
+    touchAction: "none",
+  } as const;
+}
+
+/**
+ * On-screen controls for touch devices
+ *
+ * A virtual stick for movement, the right half of the screen to look, and
+ * action buttons. Each finger is tracked by its pointer id, so any mix of
+ * them works at once. The layout button switches to edit mode, where
+ * controls can be dragged around, resized and faded; the layout is saved on
+ * this device.
+ */
+export function TouchControls() {
+  const [layout, setLayout] = useState<TouchLayout>(loadTouchLayout);
+  const [editing, setEditing] = useState(false);
+  const [selected, setSelected] = useState<Control>("stick");
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const stickDrag = useRef<StickDrag | null>(null);
+  const lookPointers = useRef(new Map<number, { x: number; y: number }>());
+
+  useEffect(() => {
+    touchInput.setLookSensitivity(layout.lookSensitivity);
+  }, [layout.lookSensitivity]);
+
+  // Leave nothing held when the controls go away
+  useEffect(() => () => touchInput.reset(), []);
+
+  const placementOf = (control: Control) =>
+    control === "stick" ? layout.stick : layout.buttons[control];
+
+  const updatePlacement = (control: Control, change: Partial<TouchPlacement>) => {
+    setLayout((current) =>
+      control === "stick"
+        ? { ...current, stick: { ...current.stick, ...change } }
+        : {
+            ...current,
+            buttons: {
+              ...current.buttons,
+              [control]: { ...current.buttons[control], ...change },
+            },
+          }
+    );
+  };
+
+  // In edit mode, dragging a control moves it
+  const handleEditMove = (control: Control, event: ReactPointerEvent) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    updatePlacement(control, {
+      x: Math.min(1, Math.max(0, event.clientX / window.innerWidth)),
+      y: Math.min(1, Math.max(0, event.clientY / window.innerHeight)),
+    });
+  };
+
+  const capture = (event: ReactPointerEvent) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  // Movement stick
+
+  const handleStickDown = (event: ReactPointerEvent) => {
+    capture(event);
+    if (editing) {
+      setSelected("stick");
+      return;
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    stickDrag.current = {
+      pointerId: event.pointerId,
+      centerX: rect.left + rect.width / 2,
+      centerY: rect.top + rect.height / 2,
+    };
+    handleStickMove(event);
+  };
+
+  const handleStickMove = (event: ReactPointerEvent) => {
+    if (editing) {
+      handleEditMove("stick", event);
+      return;
+    }
+
+    const drag = stickDrag.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const radius = layout.stick.size / 2;
+    let x = (event.clientX - drag.centerX) / radius;
+    let y = (event.clientY - drag.centerY) / radius;
+    const length = Math.hypot(x, y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+
+    setKnob({ x, y });
+    touchInput.setStick(x, y);
+  };
+
+  const handleStickUp = (event: ReactPointerEvent) => {
+    if (stickDrag.current?.pointerId !== event.pointerId) return;
+
+    stickDrag.current = null;
+    setKnob({ x: 0, y: 0 });
+    touchInput.setStick(0, 0);
+  };
+
+  // Look area
+
+  const handleLookDown = (event: ReactPointerEvent) => {
+    if (editing) return;
+    capture(event);
+    lookPointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  };
+
+  const handleLookMove = (event: ReactPointerEvent) => {
+    const last = lookPointers.current.get(event.pointerId);
+    if (!last) return;
+
+    touchInput.addLook(event.clientX - last.x, event.clientY - last.y);
+    last.x = event.clientX;
+    last.y = event.clientY;
+  };
+
+  const handleLookUp = (event: ReactPointerEvent) => {
+    lookPointers.current.delete(event.pointerId);
+  };
+
+  // Buttons
+
+  const handleButtonDown = (button: TouchButton, event: ReactPointerEvent) => {
+    capture(event);
+    if (editing) {
+      setSelected(button);
+    } else {
+      touchInput.pressButton(button);
+    }
+  };
+
+  const handleButtonUp = (button: TouchButton) => {
+    if (!editing) touchInput.releaseButton(button);
+  };
+
+  // Layout editing
+
+  const startEditing = () => {
+    touchInput.reset();
+    setKnob({ x: 0, y: 0 });
+    setEditing(true);
+  };
+
+  const finishEditing = () => {
+    saveTouchLayout(layout);
+    setEditing(false);
+  };
+
+  const resetLayout = () => {
+    setLayout(structuredClone(DEFAULT_TOUCH_LAYOUT));
+  };
+
+  const outline = (control: Control) =>
+    editing && selected === control ? "ring-4 ring-yellow-400" : "";
+
+  return (
+    <div className="absolute inset-0 z-5 pointer-events-none select-none">
+      {/* Look area */}
+      <div
+        className="absolute top-0 right-0 w-1/2 h-full pointer-events-auto"
+        style={{ touchAction: "none" }}
+        onPointerDown={handleLookDown}
+        onPointerMove={handleLookMove}
+        onPointerUp={handleLookUp}
+        onPointerCancel={handleLookUp}
+      />
+
+      {/* Movement stick */}
+      <div
+        className={`absolute rounded-full bg-gray-800 border-2 border-white pointer-events-auto ${outline("stick")}`}
+        style={placementStyle(layout.stick, layout.opacity)}
+        onPointerDown={handleStickDown}
+        onPointerMove={handleStickMove}
+        onPointerUp={handleStickUp}
+        onPointerCancel={handleStickUp}
+      >
+        <div
+          className="absolute rounded-full bg-white"
+          style={{
+            width: "40%",
+            height: "40%",
+            left: `${30 + knob.x * 30}%`,
+            top: `${30 + knob.y * 30}%`,
+          }}
+        />
+      </div>
+
+      {/* Action buttons */}
+      {TOUCH_BUTTONS.map((button) => (
+        <button
+          key={button}
+          className={`absolute rounded-full bg-gray-800 border-2 border-white text-white font-bold text-sm pointer-events-auto active:bg-red-600 ${outline(button)}`}
+          style={placementStyle(layout.buttons[button], layout.opacity)}
+          onPointerDown={(event) => handleButtonDown(button, event)}
+          onPointerMove={(event) => editing && handleEditMove(button, event)}
+          onPointerUp={() => handleButtonUp(button)}
+          onPointerCancel={() => handleButtonUp(button)}
+          onContextMenu={(event) => event.preventDefault()}
+        >
+          {BUTTON_LABELS[button]}
+        </button>
+      ))}
+
+      {/* Layout editing */}
+      {editing ? (
+        <div className="absolute top-1/3 left-1/2 -translate-x-1/2 bg-gray-900 bg-opacity-90 text-white text-sm p-4 rounded-lg pointer-events-auto w-64">
+          <p className="mb-2 text-gray-300">Drag controls to move them, tap one to select it.</p>
+          <label className="flex items-center justify-between mb-2">
+            Size
+            <input
+              type="range"
+              min="40"
+              max="220"
+              value={placementOf(selected).size}
+              onChange={(e) => updatePlacement(selected, { size: Number(e.target.value) })}
+              className="w-32"
+            />
+          </label>
+          <label className="flex items-center justify-between mb-2">
+            Opacity
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value={layout.opacity}
+              onChange={(e) => setLayout({ ...layout, opacity: Number(e.target.value) })}
+              className="w-32"
+            />
+          </label>
+          <label className="flex items-center justify-between mb-3">
+            Look speed
+            <input
+              type="range"
+              min="0.001"
+              max="0.015"
+              step="0.001"
+              value={layout.lookSensitivity}
+              onChange={(e) => setLayout({ ...layout, lookSensitivity: Number(e.target.value) })}
+              className="w-32"
+            />
+          </label>
+          <div className="flex justify-between">
+            <button onClick={resetLayout} className="bg-gray-700 py-1 px-3 rounded">
+              Reset
+            </button>
+            <button onClick={finishEditing} className="bg-red-600 py-1 px-3 rounded">
+              Done
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-gray-800 bg-opacity-70 text-white text-xs py-1 px-3 rounded pointer-events-auto"
+          onClick={startEditing}
+        >
+          Layout
+        </button>
+      )}
+    </div>
+  );
+}
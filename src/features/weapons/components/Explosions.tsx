@@ -0,0 +1,76 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Mesh, MeshBasicMaterial, PointLight } from "three";
+import { useExplosionStore } from "../stores/explosionStore";
+
+// Visual fireball that grows to the blast radius and fades
+export function ExplosionEffect({
+  position = [0, 0, 0] as [number, number, number],
+  radius = 3,
+  color = "#ff7a1a",
+  duration = 0.6,
+  onComplete,
+}: {
+  position?: [number, number, number];
+  radius?: number;
+  color?: string;
+  duration?: number;
+  onComplete?: () => void;
+}) {
+  const meshRef = useRef<Mesh>(null);
+  const lightRef = useRef<PointLight>(null);
+  const elapsed = useRef(0);
+  const completed = useRef(false);
+
+  useFrame((_, delta) => {
+    if (completed.current) return;
+    elapsed.current += delta;
+
+    const progress = Math.min(1, elapsed.current / duration);
+    // Fast burst that slows down towards the full radius
+    const size = radius * (1 - Math.pow(1 - progress, 3));
+
+    if (meshRef.current) {
+      meshRef.current.scale.setScalar(Math.max(size, 0.01));
+      (meshRef.current.material as MeshBasicMaterial).opacity = 1 - progress;
+    }
+    if (lightRef.current) {
+      lightRef.current.intensity = 20 * (1 - progress);
+    }
+
+    if (progress >= 1) {
+      completed.current = true;
+      onComplete?.();
+    }
+  });
+
+  return (
+    <group position={position}>
+      <pointLight ref={lightRef} color={color} intensity={20} distance={radius * 4} decay={2} />
+      <mesh ref={meshRef}>
+        <sphereGeometry args={[1, 16, 16]} />
+        <meshBasicMaterial color={color} transparent opacity={1} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
+
+/**
+ * Renders every explosion from the explosion store until its effect ends
+ */
+export function Explosions() {
+  const { explosions, removeExplosion } = useExplosionStore();
+
+  return (
+    <group name="explosions">
+      {explosions.map((explosion) => (
+        <ExplosionEffect
+          key={explosion.id}
+          position={explosion.position}
+          radius={explosion.radius}
+          onComplete={() => removeExplosion(explosion.id)}
+        />
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Color, InstancedMesh, Object3D, Vector3 } from "three";
+import { usePhysicsQueries } from "../../core/physics/usePhysicsQueries";
+import { ProjectilePool, projectilePool } from "../projectilePool";
+import { ImpactEffect } from "./ShootingEffects";
+
+interface ProjectileImpact {
+  id: number;
+  position: [number, number, number];
+  color: string;
+}
+
+// Smallest drawn size, so ray projectiles (radius 0) stay visible
+const MIN_VISUAL_RADIUS = 0.1;
+
+/**
+ * Simulates and draws every projectile in a pool
+ *
+ * The pool steps once per frame and all projectiles are drawn as a single
+ * InstancedMesh, so a projectile being fired or removed causes no React
+ * render and no Rapier body. Only impacts re-render, to show their effect.
+ */
+export function Projectiles({ pool = projectilePool }: { pool?: ProjectilePool }) {
+  const meshRef = useRef<InstancedMesh>(null);
+  const queries = usePhysicsQueries();
+  const [impacts, setImpacts] = useState<ProjectileImpact[]>([]);
+  const nextImpactId = useRef(0);
+
+  // Scratch objects reused every frame
+  const dummy = useMemo(() => new Object3D(), []);
+  const position = useMemo(() => new Vector3(), []);
+  const color = useMemo(() => new Color(), []);
+  const instanceColors = useMemo(
+    () => new Float32Array(pool.capacity * 3),
+    [pool]
+  );
+
+  // Show an impact effect for every hit, removed after 2 seconds
+  useEffect(() => {
+    const timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = pool.onHit((hit) => {
+      const id = nextImpactId.current++;
+      setImpacts((prev) => [...prev, { id, position: hit.position, color: hit.color }]);
+
+      const timeout = setTimeout(() => {
+        timeouts.delete(timeout);
+        setImpacts((prev) => prev.filter((impact) => impact.id !== id));
+      }, 2000);
+      timeouts.add(timeout);
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach(clearTimeout);
+    };
+  }, [pool]);
+
+  // Projectiles don't outlive the scene
+  useEffect(() => () => pool.clear(), [pool]);
+
+  useFrame((_, delta) => {
+    pool.step(delta, queries);
+
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    for (let i = 0; i < pool.count; i++) {
+      dummy.position.copy(pool.getPosition(i, position));
+      dummy.scale.setScalar(Math.max(pool.getRadius(i), MIN_VISUAL_RADIUS));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+      mesh.setColorAt(i, pool.getColor(i, color));
+    }
+
+    mesh.count = pool.count;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <group name="projectiles">
+      <instancedMesh
+        ref={meshRef}
+        args={[undefined, undefined, pool.capacity]}
+        frustumCulled={false}
+      >
+        <sphereGeometry args={[1, 8, 8]} />
+        <meshBasicMaterial toneMapped={false} />
+        <instancedBufferAttribute attach="instanceColor" args={[instanceColors, 3]} />
+      </instancedMesh>
+
+      {impacts.map((impact) => (
+        <ImpactEffect
+          key={impact.id}
+          position={impact.position}
+          color={impact.color}
+          size={0.2}
+        />
+      ))}
+    </group>
+  );
+}
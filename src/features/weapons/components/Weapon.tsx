@@ -3,7 +3,7 @@ import { useFrame, useThree } from "@react-three/fiber";
 import { Vector3, Euler, Group } from "three";
 import { ShootingEffects } from "./ShootingEffects";
 import { RigidBody } from "@react-three/rapier";
-import { inputState } from "../../core/ecs/systems/inputSystem";
+import { inputActions } from "../../core/input/actions";
 
 // Weapon types
 export type WeaponType = "pistol" | "shotgun" | "rifle" | "plasmagun";
@@ -82,19 +82,22 @@ export function Weapon({
     }, 1500); // 1.5 second reload animation
   };
   
-  // Handle keyboard input
+  // Handle fire and reload actions, through a ref so the latest state is used
+  const actionHandlers = useRef({ handleFire, handleReload });
+  actionHandlers.current = { handleFire, handleReload };
+
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === "KeyR") {
-        handleReload();
-      }
-    };
-    
-    window.addEventListener("keydown", handleKeyDown);
+    const unsubscribeFire = inputActions.onPressed("fire", () =>
+      actionHandlers.current.handleFire()
+    );
+    const unsubscribeReload = inputActions.onPressed("reload", () =>
+      actionHandlers.current.handleReload()
+    );
     return () => {
-      window.removeEventListener("keydown", handleKeyDown);
+      unsubscribeFire();
+      unsubscribeReload();
     };
-  }, [ammo, maxAmmo, isReloading]);
+  }, []);
   
   // Handle weapon position, rotation and bobbing
   useFrame((_, delta) => {
@@ -102,8 +105,7 @@ export function Weapon({
     
     // Simple weapon bob while walking (assuming global walking state)
     // In a real implementation, tie this to player movement state
-    if (window.inputState?.forward || window.inputState?.backward || 
-        window.inputState?.left || window.inputState?.right) {
+    if (inputActions.getAxis("moveX") !== 0 || inputActions.getAxis("moveY") !== 0) {
       // Increase bob speed when moving
       bobPhase.current += delta * 8;
       const newBobValue = Math.sin(bobPhase.current) * 0.02;
@@ -0,0 +1,91 @@
+import RAPIER, { World } from "@dimforge/rapier3d-compat";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ECS } from "../core/ecs/ecs";
+import { collisionGroups } from "../core/physics/collisionLayers";
+import { PhysicsQueries } from "../core/physics/physicsQueries";
+import { explode } from "./explosions";
+
+describe("explode", () => {
+  let world: World;
+  let queries: PhysicsQueries;
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    queries = new PhysicsQueries(world, RAPIER);
+  });
+
+  // A ball-shaped enemy, returns the damage it has taken so far
+  function addEnemy(x: number, y: number, z: number): () => number {
+    let taken = 0;
+    const body = world.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic().setTranslation(x, y, z)
+    );
+    body.userData = { type: "enemy", takeDamage: (amount: number) => (taken += amount) };
+    world.createCollider(
+      RAPIER.ColliderDesc.ball(0.5).setCollisionGroups(collisionGroups("enemy")),
+      body
+    );
+    return () => taken;
+  }
+
+  function addWall(x: number, y: number, z: number, half: [number, number, number]) {
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(x, y, z));
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(...half).setCollisionGroups(collisionGroups("world")),
+      body
+    );
+  }
+
+  function blast(ecs = new ECS()) {
+    // Queries only see colliders once the world has stepped
+    world.step();
+    return explode(queries, {
+      center: { x: 0, y: 0, z: 0 },
+      radius: 5,
+      damage: 100,
+      silent: true,
+      ecs,
+    });
+  }
+
+  it("deals less damage further from the center", () => {
+    // Nearest points 1 and 3 from the center
+    const near = addEnemy(1.5, 0, 0);
+    const far = addEnemy(-3.5, 0, 0);
+    const outside = addEnemy(0, 0, 8);
+
+    const hits = blast();
+
+    expect(near()).toBe(80);
+    expect(far()).toBe(40);
+    expect(outside()).toBe(0);
+    expect(hits).toHaveLength(2);
+  });
+
+  it("doesn't reach bodies behind level geometry", () => {
+    const open = addEnemy(0, 0, -2.5);
+    const covered = addEnemy(0, 0, 2.5);
+    addWall(0, 0, 1.2, [2, 2, 0.1]);
+
+    blast();
+
+    expect(open()).toBe(60);
+    expect(covered()).toBe(0);
+  });
+
+  it("sends the Explosion event to the ECS", () => {
+    addEnemy(1.5, 0, 0);
+    const ecs = new ECS();
+    const events: number[] = [];
+    ecs.events.on("Explosion", ({ hitCount }) => events.push(hitCount));
+
+    blast(ecs);
+    ecs.events.flush();
+
+    expect(events).toEqual([1]);
+  });
+});
@@ -0,0 +1,192 @@
+import type { RigidBody } from "@dimforge/rapier3d-compat";
+import { Vector3 } from "three";
+import { useGameStore } from "../../stores/gameStore";
+import { ECS } from "../core/ecs/ecs";
+import { CollisionLayer } from "../core/physics/collisionLayers";
+import {
+  HitOwner,
+  OverlapHit,
+  PhysicsQueries,
+  VectorLike,
+} from "../core/physics/physicsQueries";
+import { usePhysicsQueries } from "../core/physics/usePhysicsQueries";
+import { useExplosionStore } from "./stores/explosionStore";
+
+/**
+ * How damage and push fade from the center to the edge of an explosion
+ *
+ * Functions get the distance as a fraction of the radius (0 at the center,
+ * 1 at the edge) and return a multiplier from 0 to 1.
+ */
+export type FalloffCurve =
+  | "none"
+  | "linear"
+  | "quadratic"
+  | ((fraction: number) => number);
+
+export interface ExplosionOptions {
+  center: VectorLike;
+  radius: number;
+  // Damage at the center
+  damage: number;
+  falloff?: FalloffCurve;
+  // Impulse at the center, applied to dynamic bodies away from it
+  impulse?: number;
+  // Who caused it, passed on with the event
+  sourceId?: string;
+  // ECS the Explosion event goes to, the game's by default
+  ecs?: ECS | null;
+  // Skip the visual effect, e.g. for explosions off screen or in tests
+  silent?: boolean;
+}
+
+export interface ExplosionHit {
+  body: RigidBody;
+  layer: CollisionLayer;
+  owner: HitOwner | null;
+  // From the center to the nearest point of the body
+  distance: number;
+  // Falloff multiplier that was applied
+  falloff: number;
+  // Damage dealt, 0 for bodies that can't take damage
+  damage: number;
+}
+
+// Layers that explosions hurt, everything else is only pushed
+const DAMAGEABLE_LAYERS: readonly CollisionLayer[] = ["player", "enemy"];
+
+/**
+ * Falloff multiplier at `distance` from the center of an explosion
+ */
+export function explosionFalloff(
+  distance: number,
+  radius: number,
+  curve: FalloffCurve = "linear"
+): number {
+  if (distance >= radius) return 0;
+  const fraction = Math.max(0, distance / radius);
+
+  if (typeof curve === "function") {
+    return Math.min(1, Math.max(0, curve(fraction)));
+  }
+  switch (curve) {
+    case "none":
+      return 1;
+    case "linear":
+      return 1 - fraction;
+    case "quadratic":
+      return (1 - fraction) * (1 - fraction);
+  }
+}
+
+/**
+ * Blow something up: damage, push, effect and event in one call
+ *
+ * Every body with a collider in the radius is considered once, at its
+ * nearest point. Level geometry between the center and a body shields it
+ * completely. Players and enemies take damage through their `takeDamage`,
+ * dynamic bodies get an impulse away from the center. Keep the center a
+ * little off any surface it sits on, so the surface doesn't shield
+ * everything.
+ *
+ * Rockets, grenades and barrels should all go through here, from
+ * components through `useExplosion()`.
+ */
+export function explode(
+  queries: PhysicsQueries,
+  options: ExplosionOptions
+): ExplosionHit[] {
+  const { center, radius, damage, falloff = "linear", impulse = 0 } = options;
+  const origin = toVector3(center);
+
+  // Nearest collider of each body in range; sensors are never hit
+  const nearest = new Map<number, { hit: OverlapHit; distance: number }>();
+  for (const hit of queries.overlapSphere(center, radius)) {
+    if (!hit.body) continue;
+
+    const projection = hit.collider.projectPoint(center, true);
+    const distance = projection ? origin.distanceTo(toVector3(projection.point)) : 0;
+
+    const current = nearest.get(hit.body.handle);
+    if (!current || distance < current.distance) {
+      nearest.set(hit.body.handle, { hit, distance });
+    }
+  }
+
+  const hits: ExplosionHit[] = [];
+
+  for (const { hit, distance } of nearest.values()) {
+    const body = hit.body as RigidBody;
+    // Aim at the collider's center, body origins can sit on the floor
+    const target = toVector3(hit.collider.translation());
+
+    // Walls and floors in the way shield the body
+    if (!queries.hasLineOfSight(center, target, { exclude: [body] })) continue;
+
+    const multiplier = explosionFalloff(distance, radius, falloff);
+    if (multiplier <= 0) continue;
+
+    let dealt = 0;
+    if (DAMAGEABLE_LAYERS.includes(hit.layer) && hit.owner?.takeDamage) {
+      dealt = Math.round(damage * multiplier);
+      if (dealt > 0) hit.owner.takeDamage(dealt);
+    }
+
+    const pushed = impulse > 0 && body.isDynamic();
+    if (pushed) {
+      // Straight up when the center is inside the body
+      const toTarget = target.sub(origin);
+      const direction =
+        toTarget.lengthSq() > 1e-6 ? toTarget.normalize() : new Vector3(0, 1, 0);
+      body.applyImpulse(direction.multiplyScalar(impulse * multiplier), true);
+    }
+
+    // Static geometry in range isn't worth reporting
+    if (dealt === 0 && !pushed) continue;
+
+    hits.push({
+      body,
+      layer: hit.layer,
+      owner: hit.owner,
+      distance,
+      falloff: multiplier,
+      damage: dealt,
+    });
+  }
+
+  const position: [number, number, number] = [center.x, center.y, center.z];
+  if (!options.silent) {
+    useExplosionStore.getState().addExplosion(position, radius);
+  }
+
+  const ecs = options.ecs ?? useGameStore.getState().ecs;
+  if (ecs) {
+    ecs.events.emit("Explosion", {
+      position,
+      radius,
+      damage,
+      sourceId: options.sourceId,
+      hitCount: hits.length,
+    });
+  } else {
+    console.warn("[ECS] No ECS to send the Explosion event to, call initialize() first");
+  }
+
+  return hits;
+}
+
+function toVector3({ x, y, z }: VectorLike): Vector3 {
+  return new Vector3(x, y, z);
+}
+
+/**
+ * `explode` bound to the physics world of the surrounding <Physics>
+ *
+ *   const explosion = useExplosion();
+ *   explosion({ center: impactPoint, radius: 4, damage: 80, impulse: 12 });
+ */
+export function useExplosion(): (options: ExplosionOptions) => ExplosionHit[] {
+  const queries = usePhysicsQueries();
+  const ecs = useGameStore((state) => state.ecs);
+  return (options) => explode(queries, { ecs, ...options });
+}
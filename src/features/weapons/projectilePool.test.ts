@@ -0,0 +1,159 @@
+import { Color, Vector3 } from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CollisionLayer } from "../core/physics/collisionLayers";
+import { HitOwner, PhysicsQueries, QueryHit, VectorLike } from "../core/physics/physicsQueries";
+import { ProjectileHit, ProjectilePool, ProjectileSpawn } from "./projectilePool";
+
+// A wall across the world at `z`, owned by whatever it belongs to
+interface StubWall {
+  z: number;
+  layer: CollisionLayer;
+  owner: HitOwner | null;
+}
+
+// Queries against flat walls facing +z, enough for projectiles flying down -z
+function stubQueries(walls: StubWall[]): PhysicsQueries {
+  const cast = (origin: VectorLike, direction: VectorLike, maxDistance: number): QueryHit | null => {
+    const motion = new Vector3(direction.x, direction.y, direction.z).normalize();
+    if (motion.z >= 0) return null;
+
+    for (const wall of walls) {
+      const distance = (wall.z - origin.z) / motion.z;
+      if (distance < 0 || distance > maxDistance) continue;
+
+      return {
+        point: new Vector3(origin.x, origin.y, origin.z).addScaledVector(motion, distance),
+        normal: new Vector3(0, 0, 1),
+        distance,
+        layer: wall.layer,
+        owner: wall.owner,
+        collider: null as never,
+        body: null,
+      };
+    }
+    return null;
+  };
+
+  return {
+    raycast: cast,
+    sphereCast: (origin: VectorLike, _radius: number, direction: VectorLike, maxDistance: number) =>
+      cast(origin, direction, maxDistance),
+  } as unknown as PhysicsQueries;
+}
+
+// Flying down -z from `z`, one meter per second
+function shot(z: number, overrides: Partial<ProjectileSpawn> = {}): ProjectileSpawn {
+  return {
+    position: [0, 0, z],
+    velocity: [0, 0, -1],
+    damage: 10,
+    layer: "playerProjectile",
+    ...overrides,
+  };
+}
+
+describe("ProjectilePool", () => {
+  let pool: ProjectilePool;
+  const position = new Vector3();
+
+  beforeEach(() => {
+    pool = new ProjectilePool(4);
+  });
+
+  const zs = () =>
+    Array.from({ length: pool.count }, (_, index) => pool.getPosition(index, position).z);
+
+  it("moves projectiles and drops gravity on them when scaled", () => {
+    pool.spawn(shot(0));
+    pool.spawn(shot(0, { gravityScale: 1 }));
+
+    pool.step(0.5, stubQueries([]));
+
+    expect(zs()).toEqual([-0.5, -0.5]);
+    expect(pool.getPosition(0, position).y).toBe(0);
+    expect(pool.getPosition(1, position).y).toBeCloseTo(-9.8 * 0.5 * 0.5, 5);
+  });
+
+  it("removes projectiles once their lifetime runs out", () => {
+    pool.spawn(shot(0, { lifetime: 0.25 }));
+    pool.spawn(shot(0));
+
+    pool.step(0.2, stubQueries([]));
+    expect(pool.count).toBe(2);
+
+    pool.step(0.1, stubQueries([]));
+    expect(pool.count).toBe(1);
+    expect(zs()).toEqual([expect.closeTo(-0.3, 5)]);
+  });
+
+  it("moves the last projectile into a removed slot and still steps it once", () => {
+    pool.spawn(shot(0, { lifetime: 0.05, color: "#ff0000" }));
+    pool.spawn(shot(10, { color: "#00ff00" }));
+    pool.spawn(shot(20, { color: "#0000ff" }));
+
+    pool.step(0.1, stubQueries([]));
+
+    expect(pool.count).toBe(2);
+    // The last one took the first slot, the middle one stayed put
+    expect(zs()).toEqual([expect.closeTo(19.9, 5), expect.closeTo(9.9, 5)]);
+    expect(pool.getColor(0, new Color()).getHexString()).toBe("0000ff");
+    expect(pool.getColor(1, new Color()).getHexString()).toBe("00ff00");
+  });
+
+  it("handles every projectile expiring in the same step", () => {
+    for (let i = 0; i < 4; i++) pool.spawn(shot(i, { lifetime: 0.05 }));
+
+    pool.step(0.1, stubQueries([]));
+
+    expect(pool.count).toBe(0);
+  });
+
+  it("removes projectiles that hit something and reports the hit", () => {
+    const takeDamage = vi.fn();
+    const queries = stubQueries([{ z: -1, layer: "enemy", owner: { takeDamage } }]);
+    const hits: ProjectileHit[] = [];
+    pool.onHit((hit) => hits.push(hit));
+    pool.spawn(shot(0, { velocity: [0, 0, -20], damage: 25 }));
+    pool.spawn(shot(5));
+
+    pool.step(0.1, queries);
+
+    expect(pool.count).toBe(1);
+    expect(zs()).toEqual([expect.closeTo(4.9, 5)]);
+    expect(takeDamage).toHaveBeenCalledWith(25);
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      position: [0, 0, -1],
+      normal: [0, 0, 1],
+      layer: "enemy",
+      projectileLayer: "playerProjectile",
+      damage: 25,
+    });
+  });
+
+  it("only damages players and enemies", () => {
+    const takeDamage = vi.fn();
+    const queries = stubQueries([{ z: -1, layer: "world", owner: { takeDamage } }]);
+    const hits: ProjectileHit[] = [];
+    pool.onHit((hit) => hits.push(hit));
+    pool.spawn(shot(0, { velocity: [0, 0, -20] }));
+
+    pool.step(0.1, queries);
+
+    expect(pool.count).toBe(0);
+    expect(hits).toHaveLength(1);
+    expect(takeDamage).not.toHaveBeenCalled();
+  });
+
+  it("refuses to spawn when full", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    for (let i = 0; i < 4; i++) expect(pool.spawn(shot(i))).toBe(true);
+    expect(pool.spawn(shot(9))).toBe(false);
+    expect(pool.count).toBe(4);
+
+    pool.clear();
+    expect(pool.spawn(shot(9))).toBe(true);
+    warn.mockRestore();
+  });
+});
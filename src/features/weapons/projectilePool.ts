@@ -0,0 +1,241 @@
+import { Color, Vector3 } from "three";
+import { CollisionLayer } from "../core/physics/collisionLayers";
+import { HitOwner, PhysicsQueries } from "../core/physics/physicsQueries";
+
+export type ProjectileLayer = Extract<
+  CollisionLayer,
+  "playerProjectile" | "enemyProjectile"
+>;
+
+export interface ProjectileSpawn {
+  position: [number, number, number];
+  velocity: [number, number, number];
+  damage: number;
+  // Decides what the projectile can hit, see COLLISION_MATRIX
+  layer: ProjectileLayer;
+  // Collision radius, 0 (the default) sweeps a ray
+  radius?: number;
+  // Multiplier on gravity, 0 (the default) flies straight
+  gravityScale?: number;
+  // Seconds before it disappears without hitting anything
+  lifetime?: number;
+  color?: string;
+}
+
+export interface ProjectileHit {
+  position: [number, number, number];
+  normal: [number, number, number];
+  // What was hit
+  layer: CollisionLayer;
+  owner: HitOwner | null;
+  // What hit it
+  projectileLayer: ProjectileLayer;
+  damage: number;
+  color: string;
+}
+
+const GRAVITY = -9.8;
+const DEFAULT_LIFETIME = 5;
+const DEFAULT_COLOR = "#ff0000";
+
+// Layers that projectiles hurt, anything else just stops them
+const DAMAGEABLE_LAYERS: readonly CollisionLayer[] = ["player", "enemy"];
+
+/**
+ * Fixed-size pool of projectiles, simulated without React or Rapier bodies
+ *
+ * Projectile state lives in flat typed arrays, packed so the live ones are
+ * always at indices 0 to `count - 1`; removing one moves the last one into
+ * its slot. Each step sweeps every projectile along its motion with a ray
+ * (or a sphere cast when it has a radius) filtered by its layer, so fast
+ * projectiles can't tunnel through thin walls. Hits deal damage through the
+ * target's `takeDamage` and are reported to `onHit` listeners.
+ *
+ * Rendering reads positions and colors back with `getPosition` and
+ * `getColor`, see the Projectiles component.
+ */
+export class ProjectilePool {
+  readonly capacity: number;
+  private active: number = 0;
+  private positions: Float32Array;
+  private velocities: Float32Array;
+  private colors: Float32Array;
+  private radii: Float32Array;
+  private gravityScales: Float32Array;
+  private lifetimes: Float32Array;
+  private damages: Float32Array;
+  private layers: ProjectileLayer[];
+  private hitListeners = new Set<(hit: ProjectileHit) => void>();
+  private color = new Color();
+  private motion = new Vector3();
+
+  constructor(capacity: number = 512) {
+    if (!(capacity > 0)) {
+      throw new Error(`[Projectiles] Pool capacity must be > 0, got ${capacity}`);
+    }
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.velocities = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 3);
+    this.radii = new Float32Array(capacity);
+    this.gravityScales = new Float32Array(capacity);
+    this.lifetimes = new Float32Array(capacity);
+    this.damages = new Float32Array(capacity);
+    this.layers = new Array<ProjectileLayer>(capacity);
+  }
+
+  /**
+   * Number of live projectiles
+   */
+  get count(): number {
+    return this.active;
+  }
+
+  /**
+   * Fire a projectile, returns false if the pool is full
+   */
+  spawn(projectile: ProjectileSpawn): boolean {
+    if (this.active >= this.capacity) {
+      if (import.meta.env.DEV) {
+        console.warn(`[Projectiles] Pool is full (${this.capacity}), projectile dropped`);
+      }
+      return false;
+    }
+
+    const index = this.active++;
+    const vector = index * 3;
+    this.positions.set(projectile.position, vector);
+    this.velocities.set(projectile.velocity, vector);
+    this.color.set(projectile.color ?? DEFAULT_COLOR).toArray(this.colors, vector);
+    this.radii[index] = projectile.radius ?? 0;
+    this.gravityScales[index] = projectile.gravityScale ?? 0;
+    this.lifetimes[index] = projectile.lifetime ?? DEFAULT_LIFETIME;
+    this.damages[index] = projectile.damage;
+    this.layers[index] = projectile.layer;
+    return true;
+  }
+
+  /**
+   * Move every projectile by `delta` seconds and resolve hits
+   */
+  step(delta: number, queries: PhysicsQueries): void {
+    let index = 0;
+
+    while (index < this.active) {
+      const vector = index * 3;
+      const { positions, velocities } = this;
+
+      this.lifetimes[index] -= delta;
+      if (this.lifetimes[index] <= 0) {
+        this.remove(index);
+        continue; // The last projectile moved into this slot
+      }
+
+      velocities[vector + 1] += GRAVITY * this.gravityScales[index] * delta;
+
+      const origin = {
+        x: positions[vector],
+        y: positions[vector + 1],
+        z: positions[vector + 2],
+      };
+      const motion = this.motion.set(
+        velocities[vector] * delta,
+        velocities[vector + 1] * delta,
+        velocities[vector + 2] * delta
+      );
+      const distance = motion.length();
+
+      if (distance > 0) {
+        const radius = this.radii[index];
+        const options = { layer: this.layers[index] };
+        const hit =
+          radius > 0
+            ? queries.sphereCast(origin, radius, motion, distance, options)
+            : queries.raycast(origin, motion, distance, options);
+
+        if (hit) {
+          this.resolveHit(index, {
+            position: [hit.point.x, hit.point.y, hit.point.z],
+            normal: [hit.normal.x, hit.normal.y, hit.normal.z],
+            layer: hit.layer,
+            owner: hit.owner,
+          });
+          this.remove(index);
+          continue;
+        }
+      }
+
+      positions[vector] += motion.x;
+      positions[vector + 1] += motion.y;
+      positions[vector + 2] += motion.z;
+      index++;
+    }
+  }
+
+  /**
+   * Listen for projectile hits, e.g. to show impact effects. Returns an
+   * unsubscribe function.
+   */
+  onHit(listener: (hit: ProjectileHit) => void): () => void {
+    this.hitListeners.add(listener);
+    return () => this.hitListeners.delete(listener);
+  }
+
+  /**
+   * Position of the projectile at `index` (0 to `count - 1`)
+   */
+  getPosition(index: number, target: Vector3): Vector3 {
+    return target.fromArray(this.positions, index * 3);
+  }
+
+  getColor(index: number, target: Color): Color {
+    return target.fromArray(this.colors, index * 3);
+  }
+
+  getRadius(index: number): number {
+    return this.radii[index];
+  }
+
+  /**
+   * Remove every projectile
+   */
+  clear(): void {
+    this.active = 0;
+  }
+
+  private resolveHit(
+    index: number,
+    hit: Pick<ProjectileHit, "position" | "normal" | "layer" | "owner">
+  ): void {
+    const damage = this.damages[index];
+    if (DAMAGEABLE_LAYERS.includes(hit.layer)) {
+      hit.owner?.takeDamage?.(damage);
+    }
+
+    const event: ProjectileHit = {
+      ...hit,
+      projectileLayer: this.layers[index],
+      damage,
+      color: `#${this.getColor(index, this.color).getHexString()}`,
+    };
+    this.hitListeners.forEach((listener) => listener(event));
+  }
+
+  // Move the last projectile into `index`
+  private remove(index: number): void {
+    const last = --this.active;
+    if (index === last) return;
+
+    this.positions.copyWithin(index * 3, last * 3, last * 3 + 3);
+    this.velocities.copyWithin(index * 3, last * 3, last * 3 + 3);
+    this.colors.copyWithin(index * 3, last * 3, last * 3 + 3);
+    this.radii[index] = this.radii[last];
+    this.gravityScales[index] = this.gravityScales[last];
+    this.lifetimes[index] = this.lifetimes[last];
+    this.damages[index] = this.damages[last];
+    this.layers[index] = this.layers[last];
+  }
+}
+
+// Shared pool for every projectile in the game
+export const projectilePool = new ProjectilePool();
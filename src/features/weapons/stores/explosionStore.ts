@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import { gameRandom } from "../../core/ecs/random";
+
+export interface ExplosionEffectData {
+  id: string;
+  position: [number, number, number];
+  radius: number;
+  createdAt: number;
+}
+
+interface ExplosionState {
+  // Explosions whose effect is still playing
+  explosions: ExplosionEffectData[];
+
+  addExplosion: (position: [number, number, number], radius: number) => string;
+  removeExplosion: (id: string) => void;
+  clearExplosions: () => void;
+}
+
+export const useExplosionStore = create<ExplosionState>()((set) => ({
+  explosions: [],
+
+  addExplosion: (position, radius) => {
+    const id = `explosion-${gameRandom.stream("ids").id(9)}`;
+    set((state) => ({
+      explosions: [
+        ...state.explosions,
+        { id, position, radius, createdAt: Date.now() },
+      ],
+    }));
+    return id;
+  },
+
+  removeExplosion: (id) => {
+    set((state) => ({
+      explosions: state.explosions.filter((explosion) => explosion.id !== id),
+    }));
+  },
+
+  clearExplosions: () => {
+    set({ explosions: [] });
+  },
+}));
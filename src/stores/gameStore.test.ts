@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ECS } from "../features/core/ecs/ecs";
+import { RandomService } from "../features/core/ecs/random";
+import { inputSystem } from "../features/core/ecs/systems/inputSystem";
+import { InputRecording, RECORDING_FORMAT_VERSION } from "../features/core/input/inputRecording";
+import { GameLoop } from "../features/core/loop/gameLoop";
+import { useGameStore } from "./gameStore";
+
+// Three ticks of standing still, without a snapshot like the attract demo
+const RECORDING: InputRecording = {
+  version: RECORDING_FORMAT_VERSION,
+  seed: 1,
+  timeStep: 1 / 60,
+  ticks: 3,
+  frames: [[0, { forward: 0 }]],
+};
+
+describe("input playback", () => {
+  let random: RandomService;
+
+  function startGame(): ECS {
+    random = new RandomService(42);
+    const ecs = new ECS({ random });
+    ecs.registerSystem(inputSystem);
+    ecs.init();
+    useGameStore.setState({ ecs, gameLoop: new GameLoop() });
+    return ecs;
+  }
+
+  // One fixed tick, then let a finished loop start over
+  async function tick(ecs: ECS, index: number) {
+    ecs.update(RECORDING.timeStep, index * RECORDING.timeStep);
+    await Promise.resolve();
+  }
+
+  afterEach(() => {
+    useGameStore.getState().stopInputPlayback();
+    useGameStore.setState({ ecs: null, gameLoop: null });
+  });
+
+  it("keeps ids unique across playback loops", async () => {
+    const ecs = startGame();
+    const ids = new Set<string>();
+    ids.add(random.stream("ids").id(9));
+
+    useGameStore.getState().playInputRecording(RECORDING, true);
+    for (let i = 0; i < RECORDING.ticks * 4; i++) {
+      await tick(ecs, i);
+      // Stores keep taking ids while the demo runs
+      ids.add(random.stream("ids").id(9));
+    }
+    useGameStore.getState().stopInputPlayback();
+    ids.add(random.stream("ids").id(9));
+
+    expect(useGameStore.getState().inputPlaybackResets).toBeGreaterThan(2);
+    expect(ids.size).toBe(RECORDING.ticks * 4 + 2);
+  });
+
+  it("gives the live game its random state back", async () => {
+    const ecs = startGame();
+    const spawning = random.stream("spawning");
+    spawning.next();
+    const expected = new RandomService(42).stream("spawning");
+    expected.next();
+
+    useGameStore.getState().playInputRecording(RECORDING, true);
+    for (let i = 0; i < RECORDING.ticks * 2; i++) {
+      await tick(ecs, i);
+      spawning.next();
+    }
+    useGameStore.getState().stopInputPlayback();
+
+    expect(random.getSeed()).toBe(42);
+    expect(spawning.next()).toBe(expected.next());
+  });
+});
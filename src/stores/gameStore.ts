@@ -1,7 +1,23 @@
 import { create } from "zustand";
 import { ECS } from "../features/core/ecs/ecs";
 import { GameLoop } from "../features/core/loop/gameLoop";
+import { FrameDebugger } from "../features/core/loop/frameDebugger";
 import { InputManager } from "../features/core/input/inputManager";
+import {
+  InputPlayback,
+  InputRecorder,
+  InputRecording,
+} from "../features/core/input/inputRecording";
+import { GAME_SYSTEMS } from "../features/core/ecs/systems/gameSystems";
+import { RandomService } from "../features/core/ecs/random";
+
+// Run `rewind` without rewinding the "ids" stream. Ids have to stay unique
+// across everything that took one, replays included.
+function keepIds(random: RandomService, rewind: () => void) {
+  const ids = random.stream("ids").getState();
+  rewind();
+  random.stream("ids").setState(ids);
+}
 
 // Define the game state
 export interface GameState {
@@ -14,6 +30,12 @@ export interface GameState {
   ecs: ECS | null;
   gameLoop: GameLoop | null;
   inputManager: InputManager | null;
+  frameDebugger: FrameDebugger | null; // Dev builds only
+  inputRecorder: InputRecorder | null; // While recording
+  inputPlayback: InputPlayback | null; // While replaying
+  // Bumped when a replay (re)starts or is stopped, so what lives outside the
+  // ECS can go back to where it started
+  inputPlaybackResets: number;
 
   // Game state properties
   currentLevel: string;
@@ -54,6 +76,12 @@ export interface GameState {
   toggleDebug: () => void;
   addScore: (points: number) => void;
   
+  // Input recording, for demos and bug reports (replayed headless, see InputRecording)
+  startInputRecording: () => void;
+  stopInputRecording: () => InputRecording | null;
+  playInputRecording: (recording: InputRecording, loop?: boolean) => void;
+  stopInputPlayback: () => void;
+  
   // New actions
   completeLevel: (didWin: boolean) => void;
   setGameOver: (isOver: boolean, didWin: boolean) => void;
@@ -83,6 +111,10 @@ export const useGameStore = create<GameState>((set, get) => ({
   ecs: null,
   gameLoop: null,
   inputManager: null,
+  frameDebugger: null,
+  inputRecorder: null,
+  inputPlayback: null,
+  inputPlaybackResets: 0,
 
   // Game state properties
   currentLevel: "none",
@@ -121,18 +153,25 @@ export const useGameStore = create<GameState>((set, get) => ({
     const gameLoop = new GameLoop({ frameRate: 60 });
     const inputManager = new InputManager();
 
-    // Connect ECS to game loop
+    // Connect ECS to game loop, on game time so pausing and slow-motion apply
     gameLoop.subscribe((delta, elapsedTime) => {
       ecs.update(delta, elapsedTime);
-    });
+    }, "game");
 
-    // Initialize ECS
+    // Register the game's systems and initialize them
+    GAME_SYSTEMS.forEach((system) => ecs.registerSystem(system));
     ecs.init();
 
+    // Step/rewind controls for tuning, records after each ECS update
+    const frameDebugger = import.meta.env.DEV
+      ? new FrameDebugger(gameLoop, ecs)
+      : null;
+
     set({
       ecs,
       gameLoop,
       inputManager,
+      frameDebugger,
       gameInitialized: true,
     });
   },
@@ -162,6 +201,9 @@ export const useGameStore = create<GameState>((set, get) => ({
     // Only pause if running and not already paused
     if (!gameRunning || gamePaused) return;
 
+    // Freeze game time, UI subscribers keep running on real time
+    get().gameLoop?.setTimeScale(0);
+
     set({
       gamePaused: true,
       showMenu: true,
@@ -174,6 +216,10 @@ export const useGameStore = create<GameState>((set, get) => ({
     // Only resume if running and paused
     if (!gameRunning || !gamePaused) return;
 
+    // Back to the debugger's speed (or its own pause), not always 1x
+    const { gameLoop, frameDebugger } = get();
+    gameLoop?.setTimeScale(frameDebugger?.getTimeScale() ?? 1);
+
     set({
       gamePaused: false,
       showMenu: false,
@@ -217,6 +263,89 @@ export const useGameStore = create<GameState>((set, get) => ({
     set((state) => ({ score: state.score + points }));
   },
 
+  startInputRecording: () => {
+    const { ecs, gameLoop } = get();
+    if (!ecs || !gameLoop) return;
+
+    get().inputRecorder?.stop();
+
+    // The snapshot makes the recording replayable from where it started
+    const recorder = new InputRecorder({
+      seed: ecs.random.getSeed(),
+      timeStep: gameLoop.getTimeStep(),
+      snapshot: ecs.snapshot(),
+    });
+    recorder.start();
+
+    set({ inputRecorder: recorder });
+  },
+
+  stopInputRecording: () => {
+    const recorder = get().inputRecorder;
+    if (!recorder) return null;
+
+    set({ inputRecorder: null });
+    return recorder.stop();
+  },
+
+  playInputRecording: (recording, loop = false) => {
+    const { ecs, gameLoop } = get();
+    if (!ecs || !gameLoop) return;
+
+    get().inputPlayback?.stop();
+
+    if (recording.timeStep !== gameLoop.getTimeStep()) {
+      console.warn(
+        `[Input] Recording uses a ${recording.timeStep}s step, the loop ${gameLoop.getTimeStep()}s; playback will drift`
+      );
+    }
+
+    // The random streams are shared with what keeps running outside the ECS
+    // (stores, spawners), so the live game gets its own state back afterwards
+    const liveRandom = ecs.random.getState();
+
+    // Put the world back where the recording started, then feed its input
+    const begin = () => {
+      keepIds(ecs.random, () => {
+        if (recording.snapshot) {
+          ecs.restore(recording.snapshot, { remapIds: false });
+        } else {
+          ecs.random.reseed(recording.seed);
+        }
+      });
+      playback.start();
+      set((state) => ({ inputPlaybackResets: state.inputPlaybackResets + 1 }));
+    };
+
+    const playback = new InputPlayback(recording, {
+      onStop: () => keepIds(ecs.random, () => ecs.random.setState(liveRandom)),
+      onFinish: () => {
+        if (loop) {
+          // Finishing happens mid-update, restart once the tick is done
+          queueMicrotask(() => {
+            if (get().inputPlayback === playback) begin();
+          });
+        } else {
+          set({ inputPlayback: null });
+        }
+      },
+    });
+    begin();
+
+    set({ inputPlayback: playback });
+  },
+
+  stopInputPlayback: () => {
+    const playback = get().inputPlayback;
+    if (!playback) return;
+
+    playback.stop();
+    set((state) => ({
+      inputPlayback: null,
+      inputPlaybackResets: state.inputPlaybackResets + 1,
+    }));
+  },
+
   // New actions
   completeLevel: (didWin) => {
     set({